@@ -1,34 +1,248 @@
-import { z, ZodObject } from "zod";
+import type { z, ZodType } from "zod";
 import { ActionError } from "./action-error";
+import {
+  defineAction,
+  getMiddlewareName,
+  nameMiddleware,
+  type InvocationArgs,
+  type InvocationOverrides,
+} from "./action-definition";
+import { decodeFormData } from "./form-data";
+import {
+  validateSchema,
+  type InferSchemaInput,
+  type InferSchemaOutput,
+  type StandardSchemaV1,
+} from "./standard-schema";
+import type { StreamEvent, StreamHelpers } from "./stream";
+import {
+  applyRevalidations,
+  type Revalidated,
+  type RevalidateOptions,
+  type Revalidator,
+} from "./revalidation";
+import {
+  getZodErrorMap,
+  resolveLocale,
+  translateMessage,
+  type ActionI18nOptions,
+} from "./i18n";
+import {
+  createInvocationId,
+  emitInstrumentation,
+  type ActionInstrumentation,
+  type MiddlewareTiming,
+  type ValidationOutcome,
+} from "./instrumentation";
+import {
+  createIdempotencyMiddleware,
+  IDEMPOTENCY_KEY,
+  type IdempotencyOptions,
+} from "./idempotency";
+import {
+  createRateLimitMiddleware,
+  rateLimitedDetailsSchema,
+  type RateLimitedDetails,
+  type RateLimitOptions,
+} from "./rate-limit";
+import {
+  buildValidationErrors,
+  type FieldErrors,
+  type ValidationIssue,
+} from "./validation-errors";
 
 /**
  * @description Represents the properties of an action error.
+ * @template TInput - The input type that `fieldErrors` is keyed by.
  * @property {string} [code] - An optional error code.
  * @property {string} message - A descriptive error message.
+ * @property {unknown} [details] - Optional structured data about the error (e.g. `retryAfter`).
+ * @property {FieldErrors<TInput>} [fieldErrors] - Per-field validation errors, keyed like the input.
+ * @property {string[]} [formErrors] - Validation errors that apply to the input as a whole.
+ * @property {FieldErrors<unknown[]>} [bindArgsErrors] - Validation errors for arguments bound with `.bind()`, keyed by position.
  */
-export type ActionErrorProps = { code?: string; message: string };
+export type ActionErrorProps<TInput = unknown> = {
+  code?: string;
+  message: string;
+  details?: unknown;
+  fieldErrors?: FieldErrors<TInput>;
+  formErrors?: string[];
+  bindArgsErrors?: FieldErrors<unknown[]>;
+};
+
+/**
+ * @description Maps declared error codes to the type of their `details`.
+ */
+export type ActionErrorMap = Record<string, unknown>;
+
+/**
+ * @description The error returned when the payload does not match the input schema.
+ * @template TInput - The input type that `fieldErrors` is keyed by.
+ */
+export type ValidationErrorProps<TInput = unknown> = {
+  code: "VALIDATION_ERROR";
+  message: string;
+  fieldErrors: FieldErrors<TInput>;
+  formErrors: string[];
+};
+
+/**
+ * @description The error returned when the arguments bound with `.bind()` do not match the
+ * `.bindArgs()` schemas. `bindArgsErrors` is keyed by argument position.
+ */
+export type BindArgsValidationErrorProps = {
+  code: "BIND_ARGS_VALIDATION_ERROR";
+  message: string;
+  bindArgsErrors: FieldErrors<unknown[]>;
+};
+
+/**
+ * @description The errors every action can return, whether or not it declares its own.
+ * Errors thrown without a code (`new ActionError("...")`) have no `code`.
+ * @template TInput - The input type that validation errors are keyed by.
+ */
+export type BuiltInErrorProps<TInput = unknown> =
+  | ValidationErrorProps<TInput>
+  | BindArgsValidationErrorProps
+  | { code: "OUTPUT_VALIDATION_ERROR" | "INTERNAL_SERVER_ERROR"; message: string }
+  | { code?: undefined; message: string };
+
+/**
+ * @description A discriminated union of declared and built-in errors that TypeScript narrows on `code`.
+ * @template TErrors - The declared error codes and their details.
+ * @template TInput - The input type that validation errors are keyed by.
+ */
+export type TypedActionErrorProps<
+  TErrors extends ActionErrorMap,
+  TInput = unknown
+> =
+  | {
+      [TCode in keyof TErrors & string]: {
+        code: TCode;
+        message: string;
+        details: TErrors[TCode];
+      };
+    }[keyof TErrors & string]
+  | BuiltInErrorProps<TInput>;
 
 /**
  * @description Represents a successful action result.
  * @template TData - The type of the data returned by the action.
  * @property {TData} data - The data returned by the action.
  * @property {null} error - Indicates that no error occurred.
+ * @property {Revalidated} [revalidated] - The paths and tags revalidated by `.revalidates()`, if declared.
  */
-export type ActionSuccess<TData> = { data: TData; error: null };
+export type ActionSuccess<TData> = {
+  data: TData;
+  error: null;
+  revalidated?: Revalidated;
+};
 
 /**
  * @description Represents a failed action result.
+ * When the action declares its errors with `.errors()`, `error` is a discriminated union on `code`.
+ * @template TInput - The input type that validation errors are keyed by.
+ * @template TErrors - The declared error codes and their details, or `undefined` if none are declared.
  * @property {null} data - Indicates that no data was returned.
- * @property {ActionErrorProps} error - The error that occurred during the action.
+ * @property {ActionErrorProps<TInput> | TypedActionErrorProps<TErrors, TInput>} error - The error that occurred during the action.
  */
-export type ActionFailure = { data: null; error: ActionErrorProps };
+export type ActionFailure<
+  TInput = unknown,
+  TErrors extends ActionErrorMap | undefined = undefined
+> = {
+  data: null;
+  error: TErrors extends ActionErrorMap
+    ? TypedActionErrorProps<TErrors, TInput>
+    : ActionErrorProps<TInput>;
+};
 
 /**
  * @description The standard return type for all actions created with the client.
  * It can be either a success or a failure.
  * @template TData - The type of the data returned by the action.
+ * @template TInput - The input type that validation errors are keyed by.
+ * @template TErrors - The declared error codes and their details, or `undefined` if none are declared.
+ */
+export type ActionResult<
+  TData,
+  TInput = unknown,
+  TErrors extends ActionErrorMap | undefined = undefined
+> = ActionSuccess<TData> | ActionFailure<TInput, TErrors>;
+
+/**
+ * @description Options an action created with `.action()` accepts after its payload.
+ * `useAction` fills them in, so they rarely need to be passed by hand.
+ * @property {string} [idempotencyKey] - Identifies a logical submission for `.idempotent()`.
+ */
+export type ActionCallOptions = {
+  idempotencyKey?: string;
+};
+
+/**
+ * @description The Zod schemas for declared error details. `null` declares a code without details.
+ */
+type ErrorSchemas = Record<string, ZodType | null>;
+
+/**
+ * @description The schemas of every declared error, including built-in ones, which are written
+ * as plain Standard Schemas so they do not need Zod.
+ */
+type DeclaredErrorSchemas = Record<string, StandardSchemaV1 | null>;
+
+/**
+ * @description The details types described by declared error schemas.
+ */
+type InferErrorMap<TSchemas extends ErrorSchemas> = {
+  [TCode in keyof TSchemas]: TSchemas[TCode] extends ZodType
+    ? z.output<TSchemas[TCode]>
+    : undefined;
+};
+
+/**
+ * @description The payload type accepted by an action: the schema input if a schema is set,
+ * otherwise the payload type inferred from the handler.
  */
-export type ActionResult<TData> = ActionSuccess<TData> | ActionFailure;
+type ActionPayload<TSchema, TPayload> = TSchema extends StandardSchemaV1
+  ? InferSchemaInput<TSchema>
+  : TPayload;
+
+/**
+ * @description The leading arguments an action accepts for the `.bindArgs()` schemas.
+ */
+type BindArgsInput<TBindArgs extends readonly StandardSchemaV1[]> = {
+  [K in keyof TBindArgs]: InferSchemaInput<TBindArgs[K]>;
+};
+
+/**
+ * @description The validated bound arguments, as found in `ctx.bindArgs`.
+ */
+type BindArgsData<TBindArgs extends readonly StandardSchemaV1[]> = {
+  [K in keyof TBindArgs]: InferSchemaOutput<TBindArgs[K]>;
+};
+
+/**
+ * @description The data type received by a handler: the parsed schema output if a schema is set,
+ * otherwise the raw payload type.
+ */
+type ActionData<TSchema, TPayload> = TSchema extends StandardSchemaV1
+  ? InferSchemaOutput<TSchema>
+  : TPayload;
+
+/**
+ * @description The value a handler must return: the output schema input if an output schema is set,
+ * otherwise the type inferred from the handler.
+ */
+type HandlerOutput<TOutputSchema, TOutput> = TOutputSchema extends ZodType
+  ? z.input<TOutputSchema>
+  : TOutput;
+
+/**
+ * @description The data type sent to the client: the parsed output schema if one is set,
+ * otherwise the value returned by the handler.
+ */
+type ActionOutput<TOutputSchema, TOutput> = TOutputSchema extends ZodType
+  ? z.output<TOutputSchema>
+  : TOutput;
 
 /**
  * @description Checks if an error is an internal Next.js error (e.g., redirect, notFound).
@@ -48,145 +262,1342 @@ function isNextJsInternalError(error: unknown): boolean {
 }
 
 /**
- * @template TSchema - The Zod schema, or `undefined` if not set.
+ * @description Metadata declared on an action with `.metadata()`. It is passed to every middleware,
+ * which makes it the place for per-action policies such as permissions or audit names.
+ * Use `metadataSchema` on `createActionClient` for a stricter, validated type.
+ * @property {string} [name] - An optional, human readable action name.
+ */
+export type ActionMetadata = { name?: string; [key: string]: unknown };
+
+/**
+ * @description A logger used for errors that must not reach the client. `console` satisfies it.
+ */
+export type ActionLogger = {
+  error: (message: string, ...meta: unknown[]) => void;
+};
+
+/**
+ * @description Options for `createActionClient` that control how server errors are handled.
+ * They are inherited by every client derived from it.
+ * @template TMetadata - The type of the action metadata.
+ */
+export type ActionClientOptions<TMetadata = ActionMetadata> = {
+  /**
+   * Maps an unknown error (anything that is not an `ActionError`) to the error sent to the client.
+   * Return nothing (or throw) to fall back to the default `INTERNAL_SERVER_ERROR`. With `i18n`, the
+   * returned message is translated by its `code`. `ctx` holds the context built up to the point where the error was thrown.
+   */
+  handleServerError?: (
+    error: unknown,
+    info: { ctx: Record<string, unknown>; input: unknown; metadata: TMetadata }
+  ) => ActionErrorProps | void | Promise<ActionErrorProps | void>;
+  /** Receives unknown errors and output validation failures. Defaults to `console`. */
+  logger?: ActionLogger;
+  /** The message sent to the client for unexpected errors. */
+  defaultErrorMessage?: string;
+  /** Hooks called for every invocation, e.g. for metrics or tracing. */
+  instrumentation?: ActionInstrumentation | ActionInstrumentation[];
+  /** Revalidates the Next.js cache for `.revalidates()`, e.g. `{ path: revalidatePath, tag: revalidateTag }`. */
+  revalidate?: Revalidator;
+  /** Localizes error messages with message catalogs and Zod error maps for the locale of each invocation. */
+  i18n?: ActionI18nOptions;
+};
+
+/**
+ * @description What happened during a single invocation, collected for instrumentation.
+ */
+type InvocationTrace = {
+  validation: ValidationOutcome;
+  middleware: MiddlewareTiming[];
+  handlerDurationMs?: number;
+  cause?: unknown;
+  /** Set by streaming actions: the outcome once the stream has ended, or undefined if it was cut off. */
+  streamResult?: Promise<ActionResult<unknown> | undefined>;
+};
+
+/**
+ * @description The innermost step of the middleware chain: runs the handler with the validated
+ * input and the final context.
+ */
+type ActionTerminal = (
+  input: unknown,
+  ctx: Record<string, unknown>,
+  trace: InvocationTrace
+) => Promise<ActionResult<unknown>>;
+
+const DEFAULT_ERROR_MESSAGE = "An unexpected error occurred.";
+
+declare const middlewareContext: unique symbol;
+
+/**
+ * @description The value returned by `next()` inside a middleware. It is the `ActionResult` of the
+ * rest of the chain, tagged with the context the middleware passed down so it can be inferred.
+ * @template TNewContext - The context added by the middleware.
+ */
+export type MiddlewareResult<TNewContext> = ActionResult<unknown, unknown> & {
+  readonly [middlewareContext]?: TNewContext;
+};
+
+/**
+ * @description Calls the rest of the middleware chain and the handler.
+ * Any context passed here is merged into the context of the following middleware.
+ */
+export type MiddlewareNext = <
+  TNewContext extends Record<string, unknown> = {}
+>(opts?: {
+  ctx?: TNewContext;
+}) => Promise<MiddlewareResult<TNewContext>>;
+
+/**
+ * @description Options for `.use()` and `.middleware()`.
+ * @property {string} [name] - Identifies the middleware in instrumentation and in the overrides of `callAction`.
+ */
+export type MiddlewareOptions = {
+  name?: string;
+};
+
+/**
+ * @description A middleware that wraps the rest of the chain.
+ * It can run code before and after `next()`, inspect or replace its `ActionResult`,
+ * catch errors thrown further down, or short-circuit by returning a result without calling `next()`.
+ * Middleware runs after input validation, so `input` is the parsed payload.
+ * @template TContext - The context available to the middleware.
+ * @template TNewContext - The context the middleware adds through `next({ ctx })`.
+ * @template TInput - The parsed input of the action.
+ * @template TMetadata - The metadata declared on the action.
+ */
+export type MiddlewareFn<
+  TContext extends Record<string, unknown>,
+  TNewContext extends Record<string, unknown>,
+  TInput = unknown,
+  TMetadata = ActionMetadata
+> = (opts: {
+  ctx: TContext;
+  input: TInput;
+  metadata: TMetadata;
+  next: MiddlewareNext;
+}) => Promise<MiddlewareResult<TNewContext>>;
+
+/**
+ * @description Turns a context-only middleware into a `MiddlewareFn`.
+ * @param {(ctx: any, opts: { input: any; metadata: any }) => Promise<Record<string, unknown>>} producer - A function that returns the context to add.
+ * @param {string} [name] - The name of the middleware.
+ * @returns {MiddlewareFn<any, any, any, any>} - The wrapping middleware.
+ */
+function fromContextProducer(
+  producer: (
+    ctx: any,
+    opts: { input: any; metadata: any }
+  ) => Promise<Record<string, unknown>>,
+  name?: string
+): MiddlewareFn<any, any, any, any> {
+  const middleware: MiddlewareFn<any, any, any, any> = async ({
+    ctx,
+    input,
+    metadata,
+    next,
+  }) => next({ ctx: await producer(ctx, { input, metadata }) });
+
+  return name === undefined ? middleware : nameMiddleware(middleware, name);
+}
+
+/**
+ * @template TSchema - The input schema (Zod or any Standard Schema), or `undefined` if not set.
  * @template TContext - The combined type of all middleware.
+ * @template TOutputSchema - The Zod schema for the handler result, or `undefined` if not set.
+ * @template TMetadata - The type of the metadata declared with `.metadata()`.
+ * @template TErrors - The error codes declared with `.errors()`, or `undefined` if none are declared.
+ * @template TBindArgs - The schemas declared with `.bindArgs()` for arguments bound with `.bind()`.
  * @class
  * @description A builder for creating typesafe server actions.
  */
 export class ActionBuilder<
-  TSchema extends ZodObject<any> | undefined,
-  TContext extends Record<string, unknown>
+  TSchema extends StandardSchemaV1 | undefined,
+  TContext extends Record<string, unknown>,
+  TOutputSchema extends ZodType | undefined = undefined,
+  TMetadata = ActionMetadata,
+  TErrors extends ActionErrorMap | undefined = undefined,
+  TBindArgs extends readonly StandardSchemaV1[] = []
 > {
   private schema: TSchema;
-  private middleware: () => Promise<TContext>;
+  private middlewares: MiddlewareFn<any, any, any, any>[];
+  private outputSchema: TOutputSchema;
+  private metadataSchema: ZodType | undefined;
+  private metadataValue: TMetadata | undefined;
+  private options: ActionClientOptions<TMetadata>;
+  private errorSchemas: DeclaredErrorSchemas;
+  private revalidations: RevalidateOptions<any, any, any>[];
+  private bindArgsSchemas: StandardSchemaV1[];
+  /** The position in the middleware chain where input and bound arguments are validated. */
+  private validationIndex: number | undefined;
 
   constructor(config: {
     schema: TSchema;
-    middleware: () => Promise<TContext>;
+    middlewares: MiddlewareFn<any, any, any, any>[];
+    outputSchema: TOutputSchema;
+    metadataSchema: ZodType | undefined;
+    metadataValue: TMetadata | undefined;
+    options: ActionClientOptions<TMetadata>;
+    errorSchemas: DeclaredErrorSchemas;
+    revalidations: RevalidateOptions<any, any, any>[];
+    bindArgsSchemas: StandardSchemaV1[];
+    validationIndex: number | undefined;
   }) {
     this.schema = config.schema;
-    this.middleware = config.middleware;
+    this.middlewares = config.middlewares;
+    this.outputSchema = config.outputSchema;
+    this.metadataSchema = config.metadataSchema;
+    this.metadataValue = config.metadataValue;
+    this.options = config.options;
+    this.errorSchemas = config.errorSchemas;
+    this.revalidations = config.revalidations;
+    this.bindArgsSchemas = config.bindArgsSchemas;
+    this.validationIndex = config.validationIndex;
   }
 
   /**
-   * @description Adds Zod object validation.
-   * @param {Z} schema - The Zod schema to use for validation.
-   * @returns {ActionBuilder<Z, TContext>} - A new, configured ActionBuilder instance.
+   * @description Adds input validation. Accepts any Zod schema (objects, unions, arrays, primitives)
+   * or any other Standard Schema validator, such as Valibot or ArkType. Validation issues are
+   * returned as a `VALIDATION_ERROR` with the same `fieldErrors` and `formErrors` whichever library
+   * reported them. Validation runs at this point of the middleware chain: middleware added before
+   * `.input()` (such as authentication) runs first and receives the raw payload, middleware added
+   * after it receives the parsed input.
+   * @param {Z} schema - The schema to use for validation.
+   * @returns {ActionBuilder<Z, TContext, TOutputSchema, TMetadata, TErrors, TBindArgs>} - A new, configured ActionBuilder instance.
    */
-  public input<Z extends ZodObject<any>>(
+  public input<Z extends StandardSchemaV1>(
     schema: Z
-  ): ActionBuilder<Z, TContext> {
-    return new ActionBuilder({ ...this, schema });
+  ): ActionBuilder<Z, TContext, TOutputSchema, TMetadata, TErrors, TBindArgs> {
+    return new ActionBuilder({
+      ...this,
+      schema,
+      validationIndex: this.validationIndex ?? this.middlewares.length,
+    });
+  }
+
+  /**
+   * @description Declares schemas for arguments bound to the action with `.bind()`, e.g.
+   * `updatePost.bind(null, postId)` in a server component. Bound arguments come from the client like
+   * any other payload, so they are validated together with the input, at the point of the middleware
+   * chain where either was declared first, and a mismatch fails with a `BIND_ARGS_VALIDATION_ERROR`. The action takes them as leading parameters, and
+   * middleware and handlers receive the parsed values as `ctx.bindArgs`.
+   * @param {[...TSchemas]} schemas - One schema per bound argument, in order.
+   * @returns {ActionBuilder<TSchema, TContext & { bindArgs: BindArgsData<TSchemas> }, TOutputSchema, TMetadata, TErrors, TSchemas>} - A new, configured ActionBuilder instance.
+   */
+  public bindArgs<const TSchemas extends readonly StandardSchemaV1[]>(
+    schemas: [...TSchemas]
+  ): ActionBuilder<
+    TSchema,
+    TContext & { bindArgs: BindArgsData<TSchemas> },
+    TOutputSchema,
+    TMetadata,
+    TErrors,
+    TSchemas
+  > {
+    return new ActionBuilder({
+      ...this,
+      bindArgsSchemas: schemas,
+      validationIndex: this.validationIndex ?? this.middlewares.length,
+    }) as any;
+  }
+
+  /**
+   * @description Adds Zod validation for the handler result. The result is parsed (and unknown keys
+   * stripped) before it is sent to the client.
+   * @param {Z} outputSchema - The Zod schema to validate the handler result with.
+   * @returns {ActionBuilder<TSchema, TContext, Z, TMetadata, TErrors, TBindArgs>} - A new, configured ActionBuilder instance.
+   */
+  public output<Z extends ZodType>(
+    outputSchema: Z
+  ): ActionBuilder<TSchema, TContext, Z, TMetadata, TErrors, TBindArgs> {
+    return new ActionBuilder({ ...this, outputSchema });
+  }
+
+  /**
+   * @description Declares metadata for the action. It replaces any metadata declared earlier
+   * and is passed to every middleware.
+   * @param {TMetadata} metadata - The metadata to declare.
+   * @returns {ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, TErrors, TBindArgs>} - A new, configured ActionBuilder instance.
+   */
+  public metadata(
+    metadata: TMetadata
+  ): ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, TErrors, TBindArgs> {
+    return new ActionBuilder({ ...this, metadataValue: metadata });
+  }
+
+  /**
+   * @description Declares the errors that middleware and handlers can throw as `ActionError`s.
+   * Each code maps to a Zod schema for its `details` (or `null` for no details), and details are
+   * parsed before they are sent to the client. Declarations stack, and once an action declares
+   * errors its `ActionFailure` becomes a discriminated union on `code`.
+   * @param {TSchemas} errors - The declared error codes and their detail schemas.
+   * @returns {ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, (TErrors extends ActionErrorMap ? TErrors : {}) & InferErrorMap<TSchemas>, TBindArgs>} - A new, configured ActionBuilder instance.
+   */
+  public errors<TSchemas extends ErrorSchemas>(
+    errors: TSchemas
+  ): ActionBuilder<
+    TSchema,
+    TContext,
+    TOutputSchema,
+    TMetadata,
+    (TErrors extends ActionErrorMap ? TErrors : {}) & InferErrorMap<TSchemas>,
+    TBindArgs
+  > {
+    return new ActionBuilder({
+      ...this,
+      errorSchemas: { ...this.errorSchemas, ...errors },
+    }) as any;
+  }
+
+  /**
+   * @description Adds a middleware that wraps the rest of the chain and the handler.
+   * @template TNewContext - The type of the context passed to `next({ ctx })`.
+   * @param {MiddlewareFn<TContext, TNewContext, ActionData<TSchema, unknown>, TMetadata>} newMiddleware - The middleware to add.
+   * @param {MiddlewareOptions} [options] - The name of the middleware.
+   * @returns {ActionBuilder<TSchema, TContext & TNewContext, TOutputSchema, TMetadata, TErrors, TBindArgs>} - A new, configured ActionBuilder instance.
+   */
+  public middleware<TNewContext extends Record<string, unknown> = {}>(
+    newMiddleware: MiddlewareFn<
+      TContext,
+      TNewContext,
+      ActionData<TSchema, unknown>,
+      TMetadata
+    >,
+    options?: MiddlewareOptions
+  ): ActionBuilder<
+    TSchema,
+    TContext & TNewContext,
+    TOutputSchema,
+    TMetadata,
+    TErrors,
+    TBindArgs
+  > {
+    return new ActionBuilder<
+      TSchema,
+      TContext & TNewContext,
+      TOutputSchema,
+      TMetadata,
+      TErrors,
+      TBindArgs
+    >({
+      ...this,
+      middlewares: [
+        ...this.middlewares,
+        // Named through a wrapper, so the same function can be added under different names.
+        options?.name === undefined
+          ? newMiddleware
+          : nameMiddleware<typeof newMiddleware>(
+              (opts) => newMiddleware(opts),
+              options.name
+            ),
+      ],
+    });
   }
 
   /**
    * @description Adds stacking middleware.
    * @template TNewContext - The type of the new context returned by the middleware.
-   * @param {(ctx: TContext) => Promise<TNewContext>} newMiddleware - The middleware to add.
-   * @returns {ActionBuilder<TSchema, TContext & TNewContext>} - A new, configured ActionBuilder instance.
+   * @param {(ctx: TContext, opts: { input: ActionData<TSchema, unknown>; metadata: TMetadata }) => Promise<TNewContext>} newMiddleware - The middleware to add.
+   * @param {MiddlewareOptions} [options] - The name of the middleware.
+   * @returns {ActionBuilder<TSchema, TContext & TNewContext, TOutputSchema, TMetadata, TErrors, TBindArgs>} - A new, configured ActionBuilder instance.
    */
   public use<TNewContext extends Record<string, unknown>>(
-    newMiddleware: (ctx: TContext) => Promise<TNewContext>
-  ): ActionBuilder<TSchema, TContext & TNewContext> {
-    const oldMiddleware = this.middleware;
-
-    const newCombinedMiddleware = async () => {
-      const baseCtx = await oldMiddleware();
-      const newCtx = await newMiddleware(baseCtx);
-      return { ...baseCtx, ...newCtx };
-    };
+    newMiddleware: (
+      ctx: TContext,
+      opts: { input: ActionData<TSchema, unknown>; metadata: TMetadata }
+    ) => Promise<TNewContext>,
+    options?: MiddlewareOptions
+  ): ActionBuilder<
+    TSchema,
+    TContext & TNewContext,
+    TOutputSchema,
+    TMetadata,
+    TErrors,
+    TBindArgs
+  > {
+    return this.middleware<TNewContext>(
+      fromContextProducer(newMiddleware, options?.name)
+    );
+  }
+
+  /**
+   * @description Limits how often the action can be called per key. Calls over the limit fail with a
+   * `RATE_LIMITED` error whose details carry `retryAfterMs`. The check runs at this point of the
+   * middleware chain, so the key can use context from earlier middleware.
+   * @param {RateLimitOptions<TContext, ActionData<TSchema, unknown>>} options - The rate-limit options.
+   * @returns {ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, (TErrors extends ActionErrorMap ? TErrors : {}) & { RATE_LIMITED: RateLimitedDetails }, TBindArgs>} - A new, configured ActionBuilder instance.
+   */
+  public rateLimit(
+    options: RateLimitOptions<TContext, ActionData<TSchema, unknown>>
+  ): ActionBuilder<
+    TSchema,
+    TContext,
+    TOutputSchema,
+    TMetadata,
+    (TErrors extends ActionErrorMap ? TErrors : {}) & {
+      RATE_LIMITED: RateLimitedDetails;
+    },
+    TBindArgs
+  > {
+    return new ActionBuilder({
+      ...this,
+      errorSchemas: { ...this.errorSchemas, RATE_LIMITED: rateLimitedDetailsSchema },
+    }).middleware(createRateLimitMiddleware(options)) as any;
+  }
+
+  /**
+   * @description Makes the action idempotent. `useAction` sends an idempotency key with every
+   * submission; the first result for a key is stored, and calls repeating the key (double submits,
+   * automatic retries) get that result back without running the rest of the chain. A duplicate that
+   * arrives while the first call is still running waits for it. Results are only stored when the
+   * chain returns one: thrown errors free the key so the submission can be retried. The check runs at
+   * this point of the middleware chain, so the scope can use context from earlier middleware.
+   * Calls without a key, such as form submissions, run normally.
+   * @param {IdempotencyOptions<TContext, ActionData<TSchema, unknown>>} [options] - The idempotency options.
+   * @returns {ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, (TErrors extends ActionErrorMap ? TErrors : {}) & { IDEMPOTENCY_CONFLICT: undefined }, TBindArgs>} - A new, configured ActionBuilder instance.
+   */
+  public idempotent(
+    options: IdempotencyOptions<TContext, ActionData<TSchema, unknown>> = {}
+  ): ActionBuilder<
+    TSchema,
+    TContext,
+    TOutputSchema,
+    TMetadata,
+    (TErrors extends ActionErrorMap ? TErrors : {}) & {
+      IDEMPOTENCY_CONFLICT: undefined;
+    },
+    TBindArgs
+  > {
+    return this.errors({ IDEMPOTENCY_CONFLICT: null }).middleware(
+      createIdempotencyMiddleware(options)
+    );
+  }
+
+  /**
+   * @description Revalidates Next.js cache paths and tags after the handler succeeds (and its output
+   * passes validation). Targets can be listed or computed from the input, the returned data and the
+   * context. Failed invocations revalidate nothing, and the successful result reports what was
+   * revalidated in `revalidated`. Declarations stack.
+   * @param {RevalidateOptions<TContext, ActionData<TSchema, unknown>, ActionOutput<TOutputSchema, unknown>>} options - The paths and tags to revalidate.
+   * @returns {ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, TErrors, TBindArgs>} - A new, configured ActionBuilder instance.
+   * @throws {Error} If the client was created without the `revalidate` option.
+   */
+  public revalidates(
+    options: RevalidateOptions<
+      TContext,
+      ActionData<TSchema, unknown>,
+      ActionOutput<TOutputSchema, unknown>
+    >
+  ): ActionBuilder<TSchema, TContext, TOutputSchema, TMetadata, TErrors, TBindArgs> {
+    if (!this.options.revalidate) {
+      throw new Error(
+        "`.revalidates()` requires the `revalidate` option on createActionClient, e.g. `{ path: revalidatePath, tag: revalidateTag }`."
+      );
+    }
 
     return new ActionBuilder({
       ...this,
-      middleware: newCombinedMiddleware as any,
+      revalidations: [...this.revalidations, options],
     });
   }
 
   /**
-   * @description Creates the final, typesafe server action.
-   * @template TOutput - The output type of the action.
-   * @template TPayload - The payload type of the action, inferred from the handler if no schema is present.
-   * @param {(data: TSchema extends ZodObject<any> ? z.infer<TSchema> : TPayload, ctx: TContext) => Promise<TOutput>} handler - The action handler.
-   * @returns {(payload: TSchema extends ZodObject<any> ? z.input<TSchema> : TPayload) => Promise<ActionResult<TOutput>>} - The created server action.
+   * @description Resolves the declared metadata, validating it against `metadataSchema` if one is set.
+   * Called once when an action is created, so invalid metadata fails at definition time.
+   * @returns {TMetadata} - The resolved metadata.
    */
-  public action<
-    TOutput,
-    TPayload
-  >(
+  private resolveMetadata(): TMetadata {
+    if (this.metadataSchema) {
+      return this.metadataSchema.parse(this.metadataValue) as TMetadata;
+    }
+    return (this.metadataValue ?? {}) as TMetadata;
+  }
+
+  /**
+   * @description Converts a thrown `ActionError` into the error sent to the client.
+   * Details of declared errors are parsed with their schema so only declared fields leave the server.
+   * @param {ActionError} error - The thrown error.
+   * @returns {Promise<ActionErrorProps>} - The error sent to the client.
+   */
+  private async serializeActionError(error: ActionError): Promise<ActionErrorProps> {
+    const props: ActionErrorProps = { code: error.code, message: error.message };
+    const schema = error.code ? this.errorSchemas[error.code] : undefined;
+
+    if (schema) {
+      const result = await validateSchema(schema, error.details);
+      if (result.success) {
+        props.details = result.data;
+      } else {
+        (this.options.logger ?? console).error(
+          `Invalid details for action error "${error.code}":`,
+          result.issues
+        );
+      }
+    } else if (error.details !== undefined) {
+      props.details = error.details;
+    }
+
+    return props;
+  }
+
+  /**
+   * @description Runs the handler, validates its result and applies the declared revalidations.
+   * This is the innermost step of the middleware chain for `.action()` and `.formAction()`.
+   * @param {ActionData<TSchema, TPayload>} input - The validated input.
+   * @param {TContext} context - The context built by the middleware chain.
+   * @param {(data: ActionData<TSchema, TPayload>, ctx: TContext) => Promise<HandlerOutput<TOutputSchema, TOutput>>} handler - The action handler.
+   * @param {InvocationTrace} trace - Collects the handler duration.
+   * @returns {Promise<ActionResult<unknown>>} - The action result.
+   */
+  private async runHandler<TOutput, TPayload>(
+    input: ActionData<TSchema, TPayload>,
+    context: TContext,
     handler: (
-      data: TSchema extends ZodObject<any> ? z.infer<TSchema> : TPayload,
+      data: ActionData<TSchema, TPayload>,
       ctx: TContext
-    ) => Promise<TOutput>
-  ): (
-    payload: TSchema extends ZodObject<any> ? z.input<TSchema> : TPayload
-  ) => Promise<ActionResult<TOutput>> {
-    return async (
-      payload: TSchema extends ZodObject<any> ? z.input<TSchema> : TPayload
-    ): Promise<ActionResult<TOutput>> => {
-      try {
-        const context = await this.middleware();
-
-        let validatedInput: TSchema extends ZodObject<any> ? z.infer<TSchema> : TPayload;
-
-        if (this.schema) {
-          const result = this.schema.safeParse(payload);
-          if (!result.success) {
-            throw new ActionError({
-              code: "VALIDATION_ERROR",
-              message: "Invalid input provided.",
+    ) => Promise<HandlerOutput<TOutputSchema, TOutput>>,
+    trace: InvocationTrace
+  ): Promise<ActionResult<unknown>> {
+    const startedAt = performance.now();
+    let data: HandlerOutput<TOutputSchema, TOutput>;
+    try {
+      data = await handler(input, context);
+    } finally {
+      trace.handlerDurationMs = performance.now() - startedAt;
+    }
+
+    return this.finalizeOutput(input, context, data);
+  }
+
+  /**
+   * @description Starts a streaming handler and wraps it in a stream of `StreamEvent`s.
+   * The handler runs up to its first `yield` before the result is returned, so errors thrown before
+   * streaming starts become a regular failed result. Errors thrown later end the stream with an
+   * `error` event, mapped exactly like errors thrown by `.action()` handlers. The outcome of the
+   * stream is reported through `trace.streamResult` once it ends.
+   * @param {ActionData<TSchema, TPayload>} input - The validated input.
+   * @param {TContext} context - The context built by the middleware chain.
+   * @param {TMetadata} metadata - The resolved action metadata.
+   * @param {(data: ActionData<TSchema, TPayload>, ctx: TContext, stream: StreamHelpers) => AsyncGenerator<TChunk, TFinal, undefined>} handler - The streaming handler.
+   * @param {InvocationTrace} trace - Collects the time until the first chunk and the outcome of the stream.
+   * @returns {Promise<ActionResult<unknown>>} - The action result, holding the stream on success.
+   */
+  private async runStream<TChunk, TFinal, TPayload>(
+    input: ActionData<TSchema, TPayload>,
+    context: TContext,
+    metadata: TMetadata,
+    handler: (
+      data: ActionData<TSchema, TPayload>,
+      ctx: TContext,
+      stream: StreamHelpers
+    ) => AsyncGenerator<TChunk, TFinal, undefined>,
+    trace: InvocationTrace
+  ): Promise<ActionResult<unknown>> {
+    const abortController = new AbortController();
+    let controller!: ReadableStreamDefaultController<StreamEvent<TChunk, unknown>>;
+    let iterator!: AsyncGenerator<TChunk, TFinal, undefined>;
+    let firstStep: IteratorResult<TChunk, TFinal> | undefined;
+    let finished = false;
+    let settleStream: (result: ActionResult<unknown> | undefined) => void = () => {};
+
+    const emit = (event: StreamEvent<TChunk, unknown>) => {
+      if (!finished) controller.enqueue(event);
+    };
+    const finish = (event: StreamEvent<TChunk, unknown>) => {
+      emit(event);
+      finished = true;
+      controller.close();
+      settleStream(
+        event.type === "final"
+          ? { data: event.data, error: null, revalidated: event.revalidated }
+          : event.type === "error"
+            ? { data: null, error: event.error as ActionErrorProps }
+            : undefined
+      );
+    };
+
+    const stream = new ReadableStream<StreamEvent<TChunk, unknown>>(
+      {
+        start: (c) => {
+          controller = c;
+        },
+        pull: async () => {
+          try {
+            const step = firstStep ?? (await iterator.next());
+            firstStep = undefined;
+
+            if (!step.done) {
+              emit({ type: "chunk", chunk: step.value });
+              return;
+            }
+
+            const result = await this.finalizeOutput(input, context, step.value);
+            finish(
+              result.error
+                ? { type: "error", error: result.error }
+                : {
+                    type: "final",
+                    data: result.data,
+                    revalidated: result.revalidated,
+                  }
+            );
+          } catch (error: unknown) {
+            // A redirect cannot happen once the response has started, so it errors the stream.
+            if (isNextJsInternalError(error)) {
+              finished = true;
+              controller.error(error);
+              settleStream(undefined);
+              return;
+            }
+
+            trace.cause = error;
+            finish({
+              type: "error",
+              error: await this.mapError(error, {
+                ctx: context,
+                input,
+                metadata,
+              }),
             });
           }
-          validatedInput = result.data as TSchema extends ZodObject<any> ? z.infer<TSchema> : TPayload;
-        } else {
-          validatedInput = payload as TSchema extends ZodObject<any> ? z.infer<TSchema> : TPayload;
+        },
+        cancel: async () => {
+          finished = true;
+          settleStream(undefined);
+          abortController.abort();
+          await iterator.return(undefined as TFinal);
+        },
+      },
+      // Nothing is pulled until the client reads, so the first step is never read twice.
+      { highWaterMark: 0 }
+    );
+
+    const startedAt = performance.now();
+    try {
+      iterator = handler(input, context, {
+        progress: (value) => emit({ type: "progress", progress: value }),
+        signal: abortController.signal,
+      });
+      firstStep = await iterator.next();
+    } finally {
+      trace.handlerDurationMs = performance.now() - startedAt;
+    }
+
+    trace.streamResult = new Promise((resolve) => {
+      settleStream = resolve;
+    });
+    return { data: stream, error: null };
+  }
+
+  /**
+   * @description Validates the handler result and applies the declared revalidations.
+   * @param {unknown} input - The validated input.
+   * @param {Record<string, unknown>} context - The context built by the middleware chain.
+   * @param {unknown} data - The value returned by the handler.
+   * @returns {Promise<ActionResult<unknown>>} - The action result.
+   */
+  private async finalizeOutput(
+    input: unknown,
+    context: Record<string, unknown>,
+    data: unknown
+  ): Promise<ActionResult<unknown>> {
+    let output: unknown = data;
+    if (this.outputSchema) {
+      const result = this.outputSchema.safeParse(data);
+      if (!result.success) {
+        // The issues may describe internal fields, so they never leave the server.
+        (this.options.logger ?? console).error(
+          "Action output validation failed:",
+          result.error.issues
+        );
+        return {
+          data: null,
+          error: {
+            code: "OUTPUT_VALIDATION_ERROR",
+            message: await this.localize(
+              ["OUTPUT_VALIDATION_ERROR", "INTERNAL_SERVER_ERROR"],
+              this.options.defaultErrorMessage ?? DEFAULT_ERROR_MESSAGE,
+              context
+            ),
+          },
+        };
+      }
+      output = result.data;
+    }
+
+    if (this.revalidations.length > 0 && this.options.revalidate) {
+      const revalidated = await applyRevalidations(
+        this.revalidations,
+        this.options.revalidate,
+        { input, data: output, ctx: context },
+        this.options.logger ?? console
+      );
+      return { data: output, error: null, revalidated };
+    }
+
+    return { data: output, error: null };
+  }
+
+  /**
+   * @description Runs validation, middleware and the handler for a single invocation.
+   * @param {unknown} payload - The raw payload sent by the client.
+   * @param {InvocationArgs} args - The bound arguments and idempotency key sent with the payload.
+   * @param {TMetadata} metadata - The resolved action metadata.
+   * @param {ActionTerminal} terminal - Runs the handler once validation and middleware have passed.
+   * @param {InvocationTrace} trace - Collects what happened for instrumentation.
+   * @param {InvocationOverrides} [overrides] - Context and middleware overrides, used by the testing helpers.
+   * @returns {Promise<ActionResult<unknown>>} - The action result.
+   */
+  private async invoke(
+    payload: unknown,
+    args: InvocationArgs,
+    metadata: TMetadata,
+    terminal: ActionTerminal,
+    trace: InvocationTrace,
+    overrides?: InvocationOverrides
+  ): Promise<ActionResult<unknown>> {
+    let input: unknown = payload;
+    let currentCtx: Record<string, unknown> = { ...overrides?.ctx };
+    const bindArgs = args.bindArgs ?? [];
+
+    if (args.idempotencyKey) {
+      currentCtx = { [IDEMPOTENCY_KEY]: args.idempotencyKey, ...currentCtx };
+    }
+
+    try {
+      const validationIndex = this.validationIndex ?? 0;
+
+      // Validates the input and bound arguments once the chain reaches `validationIndex`.
+      const enterStep = async (
+        index: number,
+        ctx: Record<string, unknown>,
+        stepInput: unknown
+      ): Promise<ActionResult<unknown, unknown>> => {
+        if (index !== validationIndex) return runStep(index, ctx, stepInput);
+
+        currentCtx = ctx;
+        const validation = await this.validate(payload, bindArgs, ctx, trace);
+        if (!validation.success) return validation.result;
+
+        input = validation.input;
+        return runStep(index, validation.ctx, validation.input);
+      };
+
+      const runStep = async (
+        index: number,
+        ctx: Record<string, unknown>,
+        stepInput: unknown
+      ): Promise<ActionResult<unknown, unknown>> => {
+        const name = this.middlewares[index]
+          ? getMiddlewareName(this.middlewares[index], index)
+          : "";
+        const override = overrides?.middleware?.[name];
+        const middleware = override ?? this.middlewares[index];
+        currentCtx = ctx;
+
+        if (override === false) {
+          return enterStep(index + 1, ctx, stepInput);
+        }
+
+        if (!middleware) {
+          return terminal(stepInput, ctx, trace);
         }
 
-        const data = await handler(validatedInput, context);
+        const timing = { name, durationMs: 0 };
+        trace.middleware.push(timing);
+
+        const startedAt = performance.now();
+        let innerDuration = 0;
 
-        return { data, error: null };
-      } catch (error: unknown) {
-        if (isNextJsInternalError(error)) {
-          throw error;
+        try {
+          return await middleware({
+            ctx,
+            input: stepInput,
+            metadata,
+            next: async (opts) => {
+              const nextStartedAt = performance.now();
+              try {
+                return await enterStep(
+                  index + 1,
+                  { ...ctx, ...opts?.ctx, ...overrides?.ctx },
+                  stepInput
+                );
+              } finally {
+                innerDuration += performance.now() - nextStartedAt;
+              }
+            },
+          });
+        } finally {
+          timing.durationMs = performance.now() - startedAt - innerDuration;
         }
+      };
 
-        if (error instanceof ActionError) {
-          return {
-            data: null,
-            error: { code: error.code, message: error.message },
-          };
+      return await enterStep(0, currentCtx, payload);
+    } catch (error: unknown) {
+      if (isNextJsInternalError(error)) {
+        throw error;
+      }
+
+      trace.cause = error;
+
+      return {
+        data: null,
+        error: await this.mapError(error, { ctx: currentCtx, input, metadata }),
+      };
+    }
+  }
+
+  /**
+   * @description Validates the bound arguments and the input with the context built so far, so the
+   * locale of localized messages can come from earlier middleware.
+   * @param {unknown} payload - The raw payload sent by the client.
+   * @param {unknown[]} bindArgs - The raw bound arguments.
+   * @param {Record<string, unknown>} ctx - The context at the validation step.
+   * @param {InvocationTrace} trace - Collects the validation outcome.
+   * @returns {Promise<{ success: true; input: unknown; ctx: Record<string, unknown> } | { success: false; result: ActionResult<unknown> }>} - The parsed input and the context with `bindArgs`, or the failed result.
+   */
+  private async validate(
+    payload: unknown,
+    bindArgs: unknown[],
+    ctx: Record<string, unknown>,
+    trace: InvocationTrace
+  ): Promise<
+    | { success: true; input: unknown; ctx: Record<string, unknown> }
+    | { success: false; result: ActionResult<unknown> }
+  > {
+    const zodErrorMap = await this.resolveZodErrorMap(ctx);
+    let validatedCtx = ctx;
+
+    if (this.bindArgsSchemas.length > 0) {
+      const validatedBindArgs: unknown[] = [];
+      const issues: ValidationIssue[] = [];
+
+      for (const [index, schema] of this.bindArgsSchemas.entries()) {
+        const result = await validateSchema(schema, bindArgs[index], {
+          zodErrorMap,
+        });
+        if (result.success) {
+          validatedBindArgs.push(result.data);
+        } else {
+          issues.push(
+            ...result.issues.map((issue) => ({
+              ...issue,
+              path: [index, ...(issue.path ?? [])],
+            }))
+          );
         }
+      }
 
-        console.error("Unhandled action error:", error);
+      if (issues.length > 0) {
+        trace.validation = "failed";
         return {
+          success: false,
+          result: {
+            data: null,
+            error: {
+              code: "BIND_ARGS_VALIDATION_ERROR",
+              message: await this.localize(
+                ["BIND_ARGS_VALIDATION_ERROR"],
+                "Invalid bound arguments provided.",
+                ctx
+              ),
+              bindArgsErrors: buildValidationErrors<unknown[]>(issues).fieldErrors,
+            },
+          },
+        };
+      }
+
+      // Overridden context still wins, so tests can inject bound arguments directly.
+      validatedCtx = { bindArgs: validatedBindArgs, ...ctx };
+    }
+
+    if (!this.schema) {
+      return { success: true, input: payload, ctx: validatedCtx };
+    }
+
+    const result = await validateSchema(this.schema, payload, { zodErrorMap });
+    trace.validation = result.success ? "passed" : "failed";
+    if (!result.success) {
+      return {
+        success: false,
+        result: {
           data: null,
           error: {
-            code: "INTERNAL_SERVER_ERROR",
-            message: "An unexpected error occurred.",
+            code: "VALIDATION_ERROR",
+            message: await this.localize(
+              ["VALIDATION_ERROR"],
+              "Invalid input provided.",
+              ctx
+            ),
+            ...buildValidationErrors(result.issues),
           },
+        },
+      };
+    }
+
+    return { success: true, input: result.data, ctx: validatedCtx };
+  }
+
+  /**
+   * @description Converts an error thrown by middleware or the handler into the error sent to the client.
+   * `ActionError`s are serialized, anything else is logged and passed to `handleServerError`.
+   * If `handleServerError` throws, that error is logged too and the default `INTERNAL_SERVER_ERROR` is sent.
+   * @param {unknown} error - The thrown error.
+   * @param {{ ctx: Record<string, unknown>; input: unknown; metadata: TMetadata }} info - The invocation the error was thrown in.
+   * @returns {Promise<ActionErrorProps>} - The error sent to the client.
+   */
+  private async mapError(
+    error: unknown,
+    info: { ctx: Record<string, unknown>; input: unknown; metadata: TMetadata }
+  ): Promise<ActionErrorProps> {
+    if (error instanceof ActionError) {
+      const props = await this.serializeActionError(error);
+      props.message = await this.localize(
+        [error.messageKey, error.code],
+        props.message,
+        info.ctx,
+        props.details
+      );
+      return props;
+    }
+
+    const logger = this.options.logger ?? console;
+    logger.error("Unhandled action error:", error);
+
+    let mappedError: ActionErrorProps | void = undefined;
+    try {
+      mappedError = await this.options.handleServerError?.(error, info);
+    } catch (handlerError) {
+      // A failing handler must not turn into a rejected action.
+      logger.error("handleServerError threw:", handlerError);
+    }
+
+    if (mappedError) {
+      return {
+        ...mappedError,
+        message: await this.localize(
+          [mappedError.code],
+          mappedError.message,
+          info.ctx,
+          mappedError.details
+        ),
+      };
+    }
+
+    return {
+      code: "INTERNAL_SERVER_ERROR",
+      message: await this.localize(
+        ["INTERNAL_SERVER_ERROR"],
+        this.options.defaultErrorMessage ?? DEFAULT_ERROR_MESSAGE,
+        info.ctx
+      ),
+    };
+  }
+
+  /**
+   * @description Translates an error message with the `i18n` catalogs, for the locale resolved from
+   * the context. Falls back to `fallback` when `i18n` is not set or no catalog has any of the keys.
+   * @param {Array<string | undefined>} keys - The catalog keys to try, in order.
+   * @param {string} fallback - The untranslated message.
+   * @param {Record<string, unknown>} ctx - The context at the point the error occurred.
+   * @param {unknown} [values] - The values interpolated into the message, usually the error details.
+   * @returns {Promise<string>} - The message sent to the client.
+   */
+  private async localize(
+    keys: Array<string | undefined>,
+    fallback: string,
+    ctx: Record<string, unknown>,
+    values?: unknown
+  ): Promise<string> {
+    const { i18n } = this.options;
+    if (!i18n) return fallback;
+
+    const locale = await resolveLocale(i18n, ctx, this.options.logger ?? console);
+    return translateMessage(i18n, locale, keys, values) ?? fallback;
+  }
+
+  /**
+   * @description Resolves the Zod error map for the locale of an invocation, if `i18n` configures any.
+   * @param {Record<string, unknown>} ctx - The context at the validation step.
+   * @returns {Promise<z.core.$ZodErrorMap | undefined>} - The error map used for input validation.
+   */
+  private async resolveZodErrorMap(
+    ctx: Record<string, unknown>
+  ): Promise<z.core.$ZodErrorMap | undefined> {
+    const { i18n } = this.options;
+    if (!i18n?.zodErrorMaps) return undefined;
+    if (!this.schema && this.bindArgsSchemas.length === 0) return undefined;
+
+    const locale = await resolveLocale(i18n, ctx, this.options.logger ?? console);
+    return getZodErrorMap(i18n, locale);
+  }
+
+  /**
+   * @description Invokes the action and reports the invocation to the configured instrumentation.
+   * @param {unknown} payload - The raw payload sent by the client.
+   * @param {InvocationArgs} args - The bound arguments and idempotency key sent with the payload.
+   * @param {TMetadata} metadata - The resolved action metadata.
+   * @param {ActionTerminal} terminal - Runs the handler once validation and middleware have passed.
+   * @param {InvocationOverrides} [overrides] - Context and middleware overrides, used by the testing helpers.
+   * @returns {Promise<ActionResult<unknown>>} - The action result.
+   */
+  private async execute(
+    payload: unknown,
+    args: InvocationArgs,
+    metadata: TMetadata,
+    terminal: ActionTerminal,
+    overrides?: InvocationOverrides
+  ): Promise<ActionResult<unknown>> {
+    const instrumentations = ([] as ActionInstrumentation[]).concat(
+      this.options.instrumentation ?? []
+    );
+    const trace: InvocationTrace = { validation: "skipped", middleware: [] };
+
+    if (instrumentations.length === 0) {
+      return this.invoke(payload, args, metadata, terminal, trace, overrides);
+    }
+
+    const logger = this.options.logger ?? console;
+    const invocation = {
+      id: createInvocationId(),
+      actionName: (metadata as ActionMetadata | undefined)?.name,
+      metadata,
+      startedAt: Date.now(),
+    };
+    const startedAt = performance.now();
+
+    emitInstrumentation(
+      instrumentations,
+      "onStart",
+      { ...invocation, input: payload },
+      logger
+    );
+
+    const settle = (result: ActionResult<unknown> | undefined) => {
+      const { streamResult: _streamResult, ...timings } = trace;
+      const event = {
+        ...invocation,
+        ...timings,
+        durationMs: performance.now() - startedAt,
+        result,
+        errorCode: result?.error?.code,
+      };
+
+      if (!result) {
+        emitInstrumentation(
+          instrumentations,
+          "onSettled",
+          { ...event, status: "interrupted" },
+          logger
+        );
+      } else if (result.error) {
+        const errorEvent = {
+          ...event,
+          status: "error" as const,
+          error: result.error,
         };
+        emitInstrumentation(instrumentations, "onError", errorEvent, logger);
+        emitInstrumentation(instrumentations, "onSettled", errorEvent, logger);
+      } else {
+        const successEvent = {
+          ...event,
+          status: "success" as const,
+          data: result.data,
+        };
+        emitInstrumentation(instrumentations, "onSuccess", successEvent, logger);
+        emitInstrumentation(instrumentations, "onSettled", successEvent, logger);
       }
     };
+
+    try {
+      const result = await this.invoke(
+        payload,
+        args,
+        metadata,
+        terminal,
+        trace,
+        overrides
+      );
+      // A stream is only settled once it ends, which can still fail.
+      if (!result.error && trace.streamResult) {
+        void trace.streamResult.then(settle);
+      } else {
+        settle(result);
+      }
+      return result;
+    } catch (error: unknown) {
+      // Only Next.js internal errors (redirect, notFound) escape `invoke`.
+      settle(undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * @description Creates the final, typesafe server action.
+   * @template TOutput - The output type of the action.
+   * @template TPayload - The payload type of the action, inferred from the handler if no schema is present.
+   * @param {(data: ActionData<TSchema, TPayload>, ctx: TContext) => Promise<HandlerOutput<TOutputSchema, TOutput>>} handler - The action handler.
+   * @returns {(...args: [...BindArgsInput<TBindArgs>, payload: ActionPayload<TSchema, TPayload>, options?: ActionCallOptions]) => Promise<ActionResult<ActionOutput<TOutputSchema, TOutput>, ActionPayload<TSchema, TPayload>, TErrors>>} - The created server action.
+   */
+  public action<
+    TOutput,
+    TPayload
+  >(
+    handler: (
+      data: ActionData<TSchema, TPayload>,
+      ctx: TContext
+    ) => Promise<HandlerOutput<TOutputSchema, TOutput>>
+  ): (
+    ...args: [
+      ...BindArgsInput<TBindArgs>,
+      payload: ActionPayload<TSchema, TPayload>,
+      options?: ActionCallOptions
+    ]
+  ) => Promise<
+    ActionResult<
+      ActionOutput<TOutputSchema, TOutput>,
+      ActionPayload<TSchema, TPayload>,
+      TErrors
+    >
+  > {
+    const metadata = this.resolveMetadata();
+    const terminal: ActionTerminal = (input, ctx, trace) =>
+      this.runHandler(
+        input as ActionData<TSchema, TPayload>,
+        ctx as TContext,
+        handler,
+        trace
+      );
+    const run = (
+      payload: unknown,
+      overrides?: InvocationOverrides,
+      args: InvocationArgs = {}
+    ) => this.execute(payload, args, metadata, terminal, overrides);
+    const bindArgsCount = this.bindArgsSchemas.length;
+
+    return defineAction(
+      (...args: unknown[]) =>
+        run(args[bindArgsCount], undefined, {
+          bindArgs: args.slice(0, bindArgsCount),
+          idempotencyKey: (args[bindArgsCount + 1] as ActionCallOptions | undefined)
+            ?.idempotencyKey,
+        }) as any,
+      {
+        kind: "action",
+        inputSchema: this.schema,
+        bindArgsSchemas: this.bindArgsSchemas,
+        outputSchema: this.outputSchema,
+        errorSchemas: this.errorSchemas,
+        metadata,
+        run,
+      }
+    );
+  }
+
+  /**
+   * @description Creates a server action whose handler is an async generator. Validation, middleware
+   * and error mapping apply exactly as they do for `.action()`. On success the result holds a
+   * `ReadableStream` of `StreamEvent`s: a `chunk` for every `yield`, a `progress` for every
+   * `stream.progress()` call, and a final `final` (the returned value, checked against `.output()`)
+   * or `error` event. Read it with `useStreamingAction`.
+   * @template TChunk - The type of the values yielded by the handler.
+   * @template TFinal - The type of the value returned by the handler.
+   * @template TPayload - The payload type of the action, inferred from the handler if no schema is present.
+   * @param {(data: ActionData<TSchema, TPayload>, ctx: TContext, stream: StreamHelpers) => AsyncGenerator<TChunk, HandlerOutput<TOutputSchema, TFinal>, undefined>} handler - The streaming handler.
+   * @returns {(...args: [...BindArgsInput<TBindArgs>, payload: ActionPayload<TSchema, TPayload>]) => Promise<ActionResult<ReadableStream<StreamEvent<TChunk, ActionOutput<TOutputSchema, TFinal>, ActionFailure<ActionPayload<TSchema, TPayload>, TErrors>["error"]>>, ActionPayload<TSchema, TPayload>, TErrors>>} - The created streaming action.
+   */
+  public streamAction<TChunk, TFinal, TPayload>(
+    handler: (
+      data: ActionData<TSchema, TPayload>,
+      ctx: TContext,
+      stream: StreamHelpers
+    ) => AsyncGenerator<TChunk, HandlerOutput<TOutputSchema, TFinal>, undefined>
+  ): (
+    ...args: [
+      ...BindArgsInput<TBindArgs>,
+      payload: ActionPayload<TSchema, TPayload>
+    ]
+  ) => Promise<
+    ActionResult<
+      ReadableStream<
+        StreamEvent<
+          TChunk,
+          ActionOutput<TOutputSchema, TFinal>,
+          ActionFailure<ActionPayload<TSchema, TPayload>, TErrors>["error"]
+        >
+      >,
+      ActionPayload<TSchema, TPayload>,
+      TErrors
+    >
+  > {
+    const metadata = this.resolveMetadata();
+    const terminal: ActionTerminal = (input, ctx, trace) =>
+      this.runStream(
+        input as ActionData<TSchema, TPayload>,
+        ctx as TContext,
+        metadata,
+        handler,
+        trace
+      );
+    const run = (
+      payload: unknown,
+      overrides?: InvocationOverrides,
+      args: InvocationArgs = {}
+    ) => this.execute(payload, args, metadata, terminal, overrides);
+    const bindArgsCount = this.bindArgsSchemas.length;
+
+    return defineAction(
+      (...args: unknown[]) =>
+        run(args[bindArgsCount], undefined, {
+          bindArgs: args.slice(0, bindArgsCount),
+        }) as any,
+      {
+        kind: "streamAction",
+        inputSchema: this.schema,
+        bindArgsSchemas: this.bindArgsSchemas,
+        outputSchema: this.outputSchema,
+        errorSchemas: this.errorSchemas,
+        metadata,
+        run,
+      }
+    );
+  }
+
+  /**
+   * @description Creates a server action that can be passed to `<form action>` or `useActionState`.
+   * The submitted `FormData` is decoded into the input schema before validation: repeated keys
+   * become arrays, dotted/bracketed names become nested objects, checkboxes become booleans,
+   * `File` entries are kept and numbers/dates are coerced.
+   * @template TOutput - The output type of the action.
+   * @template TPayload - The payload type of the action, inferred from the handler if no schema is present.
+   * @param {(data: ActionData<TSchema, TPayload>, ctx: TContext) => Promise<HandlerOutput<TOutputSchema, TOutput>>} handler - The action handler.
+   * @returns {(...args: [...BindArgsInput<TBindArgs>, prevState: ActionResult<ActionOutput<TOutputSchema, TOutput>, ActionPayload<TSchema, TPayload>, TErrors> | null, formData: FormData]) => Promise<ActionResult<ActionOutput<TOutputSchema, TOutput>, ActionPayload<TSchema, TPayload>, TErrors>>} - The created form action.
+   */
+  public formAction<
+    TOutput,
+    TPayload = Record<string, unknown>
+  >(
+    handler: (
+      data: ActionData<TSchema, TPayload>,
+      ctx: TContext
+    ) => Promise<HandlerOutput<TOutputSchema, TOutput>>
+  ): (
+    ...args: [
+      ...BindArgsInput<TBindArgs>,
+      prevState: ActionResult<
+        ActionOutput<TOutputSchema, TOutput>,
+        ActionPayload<TSchema, TPayload>,
+        TErrors
+      > | null,
+      formData: FormData
+    ]
+  ) => Promise<
+    ActionResult<
+      ActionOutput<TOutputSchema, TOutput>,
+      ActionPayload<TSchema, TPayload>,
+      TErrors
+    >
+  > {
+    const metadata = this.resolveMetadata();
+    const terminal: ActionTerminal = (input, ctx, trace) =>
+      this.runHandler(
+        input as ActionData<TSchema, TPayload>,
+        ctx as TContext,
+        handler,
+        trace
+      );
+    const run = (
+      payload: unknown,
+      overrides?: InvocationOverrides,
+      args: InvocationArgs = {}
+    ) =>
+      this.execute(
+        payload instanceof FormData
+          ? decodeFormData(payload, this.schema)
+          : payload,
+        args,
+        metadata,
+        terminal,
+        overrides
+      );
+    const bindArgsCount = this.bindArgsSchemas.length;
+
+    // The bound arguments come first, then `useActionState`'s previous state and the form data.
+    return defineAction(
+      (...args: unknown[]) =>
+        run(args[bindArgsCount + 1], undefined, {
+          bindArgs: args.slice(0, bindArgsCount),
+        }) as any,
+      {
+        kind: "formAction",
+        inputSchema: this.schema,
+        bindArgsSchemas: this.bindArgsSchemas,
+        outputSchema: this.outputSchema,
+        errorSchemas: this.errorSchemas,
+        metadata,
+        run,
+      }
+    );
   }
 }
 
 /**
  * @description Creates a new action client.
- * @template TSchema - The Zod schema, or `undefined` if not set.
+ * @template TSchema - The input schema (Zod or any Standard Schema), or `undefined` if not set.
  * @template TContext - The combined type of all middleware.
+ * @template TMetadataSchema - The Zod schema for action metadata, or `undefined` if not set.
  * @param {object} [config] - Optional configuration for the action client.
- * @param {TSchema} [config.schema] - An optional Zod schema for input validation.
+ * @param {TSchema} [config.schema] - An optional schema for input validation.
  * @param {() => Promise<TContext>} [config.middleware] - Optional middleware to run before the action.
- * @returns {ActionBuilder<TSchema, TContext>} - A new ActionBuilder instance.
+ * @param {TMetadataSchema} [config.metadataSchema] - An optional Zod schema that types and validates `.metadata()`.
+ * @param {ActionClientOptions["handleServerError"]} [config.handleServerError] - Maps unknown errors to the error sent to the client.
+ * @param {ActionLogger} [config.logger] - Receives unknown errors and output validation failures. Defaults to `console`.
+ * @param {string} [config.defaultErrorMessage] - The message sent to the client for unexpected errors.
+ * @param {ActionInstrumentation | ActionInstrumentation[]} [config.instrumentation] - Hooks called for every invocation.
+ * @param {Revalidator} [config.revalidate] - Revalidates the Next.js cache for `.revalidates()`.
+ * @param {ActionI18nOptions} [config.i18n] - Localizes error messages for the locale of each invocation.
+ * @returns {ActionBuilder<TSchema, TContext, undefined, ActionMetadata | z.output<TMetadataSchema>>} - A new ActionBuilder instance.
  */
 export const createActionClient = <
-  TSchema extends ZodObject<any> | undefined = undefined,
-  TContext extends Record<string, unknown> = {}
->(config?: {
-  schema?: TSchema;
-  middleware?: () => Promise<TContext>;
-}) => {
-  return new ActionBuilder<TSchema, TContext>({
+  TSchema extends StandardSchemaV1 | undefined = undefined,
+  TContext extends Record<string, unknown> = {},
+  TMetadataSchema extends ZodType | undefined = undefined
+>(
+  config?: {
+    schema?: TSchema;
+    middleware?: () => Promise<TContext>;
+    metadataSchema?: TMetadataSchema;
+  } & ActionClientOptions<
+    TMetadataSchema extends ZodType ? z.output<TMetadataSchema> : ActionMetadata
+  >
+) => {
+  const middlewares = config?.middleware
+    ? [fromContextProducer(config.middleware)]
+    : [];
+
+  return new ActionBuilder<
+    TSchema,
+    TContext,
+    undefined,
+    TMetadataSchema extends ZodType ? z.output<TMetadataSchema> : ActionMetadata
+  >({
     schema: config?.schema ?? (undefined as TSchema),
-    middleware: config?.middleware ?? (() => Promise.resolve({} as TContext)),
+    middlewares,
+    outputSchema: undefined,
+    metadataSchema: config?.metadataSchema,
+    metadataValue: undefined,
+    errorSchemas: {},
+    revalidations: [],
+    bindArgsSchemas: [],
+    // A client-level schema is validated once the client's own context has been built.
+    validationIndex: config?.schema ? middlewares.length : undefined,
+    options: {
+      handleServerError: config?.handleServerError,
+      logger: config?.logger,
+      defaultErrorMessage: config?.defaultErrorMessage,
+      instrumentation: config?.instrumentation,
+      revalidate: config?.revalidate,
+      i18n: config?.i18n,
+    },
   });
 };
@@ -0,0 +1,114 @@
+import type { ZodType } from "zod";
+import type { ActionResult, MiddlewareFn } from "./action-client";
+import type { StandardSchemaV1 } from "./standard-schema";
+
+/**
+ * @description The key under which actions created by `ActionBuilder` keep their definition.
+ * `Symbol.for` keeps it stable across separately bundled entry points.
+ */
+export const ACTION_DEFINITION = Symbol.for("better-next-actions.definition");
+
+/**
+ * @description Changes applied to a single invocation, used by the testing helpers.
+ * @property {Record<string, unknown>} [ctx] - Context merged over whatever the middleware chain produces.
+ * @property {Record<string, false | MiddlewareFn<any, any, any, any>>} [middleware] - Middleware to skip (`false`) or replace, keyed by name.
+ */
+export type InvocationOverrides = {
+  ctx?: Record<string, unknown>;
+  middleware?: Record<string, false | MiddlewareFn<any, any, any, any>>;
+};
+
+/**
+ * @description What the client sent besides the payload.
+ * @property {unknown[]} [bindArgs] - The arguments bound with `.bind()`.
+ * @property {string} [idempotencyKey] - The idempotency key of the submission, for `.idempotent()`.
+ */
+export type InvocationArgs = {
+  bindArgs?: unknown[];
+  idempotencyKey?: string;
+};
+
+/**
+ * @description What an action created by `ActionBuilder` knows about itself.
+ * @property {"action" | "formAction" | "streamAction"} kind - The builder terminal that created the action.
+ * @property {StandardSchemaV1 | undefined} inputSchema - The input schema, if any.
+ * @property {StandardSchemaV1[]} bindArgsSchemas - The schemas for arguments bound with `.bind()`.
+ * @property {ZodType | undefined} outputSchema - The output schema, if any.
+ * @property {Record<string, StandardSchemaV1 | null>} errorSchemas - The declared errors and their detail schemas.
+ * @property {unknown} metadata - The resolved action metadata.
+ * @property {(payload: unknown, overrides?: InvocationOverrides, args?: InvocationArgs) => Promise<ActionResult<unknown>>} run - Invokes the action with a decoded payload.
+ */
+export type ActionDefinition = {
+  kind: "action" | "formAction" | "streamAction";
+  inputSchema: StandardSchemaV1 | undefined;
+  bindArgsSchemas: StandardSchemaV1[];
+  outputSchema: ZodType | undefined;
+  errorSchemas: Record<string, StandardSchemaV1 | null>;
+  metadata: unknown;
+  run: (
+    payload: unknown,
+    overrides?: InvocationOverrides,
+    args?: InvocationArgs
+  ) => Promise<ActionResult<unknown>>;
+};
+
+/**
+ * @description Reads the definition of an action created by `ActionBuilder`.
+ * @param {unknown} action - The action function.
+ * @returns {ActionDefinition | undefined} - The definition, or `undefined` for other functions.
+ */
+export function getActionDefinition(
+  action: unknown
+): ActionDefinition | undefined {
+  if (typeof action !== "function") return undefined;
+  return (action as { [ACTION_DEFINITION]?: ActionDefinition })[
+    ACTION_DEFINITION
+  ];
+}
+
+/**
+ * @description Attaches a definition to an action function without making it enumerable.
+ * @param {TAction} action - The action function.
+ * @param {ActionDefinition} definition - The definition to attach.
+ * @returns {TAction} - The same action function.
+ */
+export function defineAction<TAction extends Function>(
+  action: TAction,
+  definition: ActionDefinition
+): TAction {
+  Object.defineProperty(action, ACTION_DEFINITION, { value: definition });
+  return action;
+}
+
+/**
+ * @description The key under which a middleware keeps its explicit name. Function names are
+ * not used, since minifiers drop them.
+ */
+const MIDDLEWARE_NAME = Symbol.for("better-next-actions.middlewareName");
+
+/**
+ * @description Gives a middleware the name it is identified by in instrumentation and test overrides.
+ * @param {TMiddleware} middleware - A middleware function created for this purpose, since it is changed.
+ * @param {string} name - The name.
+ * @returns {TMiddleware} - The same middleware function.
+ */
+export function nameMiddleware<TMiddleware extends Function>(
+  middleware: TMiddleware,
+  name: string
+): TMiddleware {
+  Object.defineProperty(middleware, MIDDLEWARE_NAME, { value: name });
+  return middleware;
+}
+
+/**
+ * @description The name used to identify a middleware in instrumentation and test overrides.
+ * @param {Function} middleware - The middleware function.
+ * @param {number} index - The middleware position in the chain.
+ * @returns {string} - The name given with `nameMiddleware`, or its position if it has none.
+ */
+export function getMiddlewareName(middleware: Function, index: number): string {
+  return (
+    (middleware as { [MIDDLEWARE_NAME]?: string })[MIDDLEWARE_NAME] ??
+    `middleware#${index}`
+  );
+}
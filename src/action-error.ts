@@ -2,19 +2,38 @@
  * @class ActionError
  * @extends Error
  * @description Custom error class for server actions. Allows returning a structured error object from the action.
- * @param {string | { code?: string; message: string }} input - A simple error message string or an object with a message and optional code.
+ * With the `i18n` option of `createActionClient`, the message sent to the client is looked up in the
+ * message catalog by `messageKey`, then by `code`, and falls back to `message`.
+ * @template TCode - The error code, inferred as a literal from the input.
+ * @template TDetails - The type of the structured error details.
+ * @param {string | { code?: TCode; message?: string; messageKey?: string; details?: TDetails }} input - A simple error message string or an object with a message or message key, optional code and optional details.
  */
-export class ActionError extends Error {
-  public readonly code?: string;
+export class ActionError<
+  TCode extends string = string,
+  TDetails = unknown
+> extends Error {
+  public readonly code?: TCode;
+  public readonly messageKey?: string;
+  public readonly details?: TDetails;
 
-  constructor(input: string | { code?: string; message: string }) {
-    const { message, code } =
+  constructor(
+    input:
+      | string
+      | ({ code?: TCode; details?: TDetails } & (
+          | { message: string; messageKey?: string }
+          | { message?: string; messageKey: string }
+        ))
+  ) {
+    const { message, messageKey, code, details } =
       typeof input === 'string'
-        ? { message: input, code: undefined }
+        ? { message: input, messageKey: undefined, code: undefined, details: undefined }
         : input;
 
-    super(message);
+    // Without a literal message, the key is the message until it is translated.
+    super(message ?? messageKey);
     this.name = 'ActionError';
     this.code = code;
+    this.messageKey = messageKey;
+    this.details = details;
   }
 }
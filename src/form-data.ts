@@ -0,0 +1,208 @@
+import type { z } from "zod";
+import { isZodSchema, type StandardSchemaV1 } from "./standard-schema";
+
+type SchemaDef = {
+  type: string;
+  shape?: Record<string, z.core.$ZodType>;
+  element?: z.core.$ZodType;
+  innerType?: z.core.$ZodType;
+  in?: z.core.$ZodType;
+  getter?: () => z.core.$ZodType;
+};
+
+/** Wrapper types whose inner schema decides how a form value is coerced. */
+const WRAPPER_TYPES = new Set([
+  "optional",
+  "nullable",
+  "default",
+  "prefault",
+  "nonoptional",
+  "catch",
+  "readonly",
+]);
+
+const TRUTHY_VALUES = new Set(["on", "true", "1", "yes"]);
+
+/** Segments that would write to an object's prototype instead of the object itself. */
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * @description Splits a form field name into path segments.
+ * Supports dotted (`address.city`) and bracketed (`items[0][name]`, `tags[]`) names.
+ * @param {string} name - The form field name.
+ * @returns {string[]} - The path segments. An empty segment marks an explicit array push (`[]`).
+ */
+export function parseFieldName(name: string): string[] {
+  const segments: string[] = [];
+  const pattern = /([^.[\]]+)|\[([^\]]*)\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(name)) !== null) {
+    segments.push(match[1] ?? match[2]);
+  }
+
+  return segments;
+}
+
+/**
+ * @description Writes a single form entry into the decoded object.
+ * Repeated keys are collected into arrays. Only own properties count as existing entries,
+ * so names like `toString` decode like any other field.
+ */
+function assignEntry(
+  target: Record<string, unknown>,
+  segments: string[],
+  value: FormDataEntryValue
+) {
+  let node: Record<string, unknown> = target;
+
+  for (let i = 0; i < segments.length - 1; i++) {
+    const key = segments[i];
+    const next = segments[i + 1];
+    if (
+      !Object.hasOwn(node, key) ||
+      typeof node[key] !== "object" ||
+      node[key] === null
+    ) {
+      node[key] = next === "" || /^\d+$/.test(next) ? [] : {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+
+  const last = segments[segments.length - 1];
+
+  if (Array.isArray(node) && last === "") {
+    node.push(value);
+  } else if (!Object.hasOwn(node, last)) {
+    node[last] = value;
+  } else if (Array.isArray(node[last])) {
+    (node[last] as unknown[]).push(value);
+  } else {
+    node[last] = [node[last], value];
+  }
+}
+
+/**
+ * @description Unwraps optional, default and similar wrappers to reach the schema
+ * that describes the actual value.
+ */
+function unwrapSchema(schema: z.core.$ZodType): {
+  def: SchemaDef;
+  optional: boolean;
+  nullable: boolean;
+} {
+  let def = schema._zod.def as SchemaDef;
+  let optional = false;
+  let nullable = false;
+
+  while (true) {
+    if (WRAPPER_TYPES.has(def.type) && def.innerType) {
+      if (def.type === "nullable") nullable = true;
+      else if (def.type !== "nonoptional") optional = true;
+      def = def.innerType._zod.def as SchemaDef;
+    } else if (def.type === "pipe" && def.in) {
+      def = def.in._zod.def as SchemaDef;
+    } else if (def.type === "lazy" && def.getter) {
+      def = def.getter()._zod.def as SchemaDef;
+    } else {
+      return { def, optional, nullable };
+    }
+  }
+}
+
+/**
+ * @description Coerces a decoded form value to what the schema expects.
+ * Values the schema does not describe are returned untouched.
+ */
+function coerceValue(value: unknown, schema: z.core.$ZodType): unknown {
+  const { def, optional, nullable } = unwrapSchema(schema);
+  const isBlank = value === undefined || value === "";
+  const blankValue = nullable && !optional ? null : undefined;
+
+  switch (def.type) {
+    case "object": {
+      if (value === undefined && optional) return undefined;
+      const source =
+        typeof value === "object" && value !== null && !Array.isArray(value)
+          ? (value as Record<string, unknown>)
+          : {};
+      const result: Record<string, unknown> = { ...source };
+      for (const [key, fieldSchema] of Object.entries(def.shape ?? {})) {
+        const coerced = coerceValue(
+          Object.hasOwn(source, key) ? source[key] : undefined,
+          fieldSchema
+        );
+        if (coerced === undefined) delete result[key];
+        else result[key] = coerced;
+      }
+      return result;
+    }
+    case "array": {
+      if (value === undefined) return optional ? undefined : [];
+      const items = Array.isArray(value) ? value : [value];
+      return def.element
+        ? items.map((item) => coerceValue(item, def.element!))
+        : items;
+    }
+    case "boolean":
+      // Unchecked checkboxes are not submitted at all, and a hidden fallback
+      // input followed by a checked checkbox submits both values.
+      if (value === undefined) return optional ? undefined : false;
+      if (Array.isArray(value)) value = value[value.length - 1];
+      return typeof value === "string"
+        ? TRUTHY_VALUES.has(value.toLowerCase())
+        : value;
+    case "number":
+      if (isBlank) return blankValue;
+      return typeof value === "string" ? Number(value) : value;
+    case "bigint":
+      if (isBlank) return blankValue;
+      try {
+        return typeof value === "string" ? BigInt(value) : value;
+      } catch {
+        return value;
+      }
+    case "date":
+      if (isBlank) return blankValue;
+      return typeof value === "string" ? new Date(value) : value;
+    case "null":
+      return isBlank ? null : value;
+    default:
+      if (value === "" && (optional || nullable)) return blankValue;
+      return value;
+  }
+}
+
+/**
+ * @description Decodes `FormData` into a plain object.
+ * Repeated keys become arrays, dotted and bracketed names become nested objects
+ * and `File` entries are kept as-is. Fields whose name contains `__proto__`, `constructor` or
+ * `prototype` are dropped. When a Zod schema is given, values are coerced
+ * to the types it expects (numbers, booleans, dates, arrays). Other Standard Schema
+ * validators receive the decoded strings and are expected to coerce them themselves.
+ * @param {FormData} formData - The submitted form data.
+ * @param {StandardSchemaV1} [schema] - The input schema to coerce the values against.
+ * @returns {Record<string, unknown>} - The decoded payload.
+ */
+export function decodeFormData(
+  formData: FormData,
+  schema?: StandardSchemaV1
+): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+
+  formData.forEach((value, name) => {
+    // React attaches its own `$ACTION_*` fields to progressively enhanced forms.
+    if (name.startsWith("$ACTION_")) return;
+
+    const segments = parseFieldName(name);
+    if (segments.length === 0) return;
+    // Fields like `__proto__.isAdmin` would otherwise pollute `Object.prototype`.
+    if (segments.some((segment) => UNSAFE_SEGMENTS.has(segment))) return;
+
+    assignEntry(decoded, segments, value);
+  });
+
+  return isZodSchema(schema)
+    ? (coerceValue(decoded, schema) as Record<string, unknown>)
+    : decoded;
+}
@@ -0,0 +1,30 @@
+export { useAction } from './use-action';
+export type {
+  UseActionState,
+  UseActionSetState,
+  ActionStatus,
+  UseActionOptions,
+  ExecuteOptions,
+  ExecuteResult,
+  ConcurrencyMode,
+  UnexpectedErrorProps,
+} from './use-action';
+export { setUnexpectedErrorMessage } from './unexpected-error';
+export type { RetryPolicy, RetryDelay } from './retry';
+export type { ScheduleOptions } from './schedule';
+export { useActionQuery } from './use-action-query';
+export type { UseActionQueryOptions } from './use-action-query';
+export { invalidateActionQuery, setActionQueryData } from './query-cache';
+export { useOptimisticAction } from './use-optimistic-action';
+export type { UseOptimisticActionOptions } from './use-optimistic-action';
+export { useStreamingAction } from './use-streaming-action';
+export type {
+  UseStreamingActionState,
+  UseStreamingActionOptions,
+} from './use-streaming-action';
+export { useActionForm } from './use-action-form';
+export type {
+  UseActionFormOptions,
+  RegisteredField,
+  FieldPath,
+} from './use-action-form';
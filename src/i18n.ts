@@ -0,0 +1,127 @@
+import type { z } from "zod";
+import type { ActionLogger } from "./action-client";
+
+/**
+ * @description Messages for one locale, keyed by error code or by the `messageKey` of an
+ * `ActionError`. `{name}` placeholders are replaced with the matching field of the error details.
+ */
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * @description The `i18n` option of `createActionClient`.
+ */
+export type ActionI18nOptions = {
+  /**
+   * Resolves the locale of an invocation from the context, e.g. a `locale` set by middleware.
+   * Validation errors are resolved with the context where `.input()` is declared, so middleware
+   * added before it can set the locale. Return nothing to use `defaultLocale`.
+   */
+  locale: (
+    ctx: Record<string, unknown>
+  ) => string | undefined | Promise<string | undefined>;
+  /** The locale used when none is resolved, and for messages missing from the resolved catalog. */
+  defaultLocale: string;
+  /** Message catalogs by locale, e.g. `{ en: { NOT_FOUND: "Not found." }, de: { ... } }`. */
+  messages: Record<string, MessageCatalog>;
+  /** Zod error maps by locale, applied when input is validated, e.g. `{ de: z.locales.de().localeError }`. */
+  zodErrorMaps?: Record<string, z.core.$ZodErrorMap>;
+};
+
+/**
+ * @description The locales to look a message up in, most specific first:
+ * `de-AT` falls back to `de`, then to the default locale.
+ */
+function getLocaleChain(i18n: ActionI18nOptions, locale: string): string[] {
+  const chain = [locale];
+  const language = locale.split("-")[0];
+  if (language !== locale) chain.push(language);
+  if (!chain.includes(i18n.defaultLocale)) chain.push(i18n.defaultLocale);
+  return chain;
+}
+
+/**
+ * @description Resolves the locale of an invocation. A resolver that throws is logged and
+ * falls back to the default locale, so localization never fails an action.
+ * @param {ActionI18nOptions} i18n - The i18n options.
+ * @param {Record<string, unknown>} ctx - The context at the point the message is built.
+ * @param {ActionLogger} logger - Receives errors thrown by the resolver.
+ * @returns {Promise<string>} - The resolved locale.
+ */
+export async function resolveLocale(
+  i18n: ActionI18nOptions,
+  ctx: Record<string, unknown>,
+  logger: ActionLogger
+): Promise<string> {
+  try {
+    return (await i18n.locale(ctx)) || i18n.defaultLocale;
+  } catch (error) {
+    logger.error("Failed to resolve the action locale:", error);
+    return i18n.defaultLocale;
+  }
+}
+
+/**
+ * @description Replaces `{name}` placeholders with the matching fields of `values`.
+ * Placeholders without a matching primitive value are left as they are.
+ * @param {string} template - The message template.
+ * @param {unknown} values - The values to interpolate, usually the error details.
+ * @returns {string} - The interpolated message.
+ */
+export function interpolateMessage(template: string, values: unknown): string {
+  if (typeof values !== "object" || values === null) return template;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = (values as Record<string, unknown>)[name];
+    return typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+      ? String(value)
+      : placeholder;
+  });
+}
+
+/**
+ * @description Looks up the first of `keys` found in the catalogs for `locale`, and interpolates it.
+ * @param {ActionI18nOptions} i18n - The i18n options.
+ * @param {string} locale - The resolved locale.
+ * @param {Array<string | undefined>} keys - The keys to try, in order.
+ * @param {unknown} [values] - The values to interpolate.
+ * @returns {string | undefined} - The translated message, or undefined if no catalog has one.
+ */
+export function translateMessage(
+  i18n: ActionI18nOptions,
+  locale: string,
+  keys: Array<string | undefined>,
+  values?: unknown
+): string | undefined {
+  for (const candidate of getLocaleChain(i18n, locale)) {
+    const catalog = i18n.messages[candidate];
+    if (!catalog) continue;
+
+    for (const key of keys) {
+      if (key !== undefined && Object.hasOwn(catalog, key)) {
+        return interpolateMessage(catalog[key], values);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * @description Returns the Zod error map for a locale, falling back like message catalogs do.
+ * @param {ActionI18nOptions} i18n - The i18n options.
+ * @param {string} locale - The resolved locale.
+ * @returns {z.core.$ZodErrorMap | undefined} - The error map, if one is configured.
+ */
+export function getZodErrorMap(
+  i18n: ActionI18nOptions,
+  locale: string
+): z.core.$ZodErrorMap | undefined {
+  if (!i18n.zodErrorMaps) return undefined;
+
+  for (const candidate of getLocaleChain(i18n, locale)) {
+    const errorMap = i18n.zodErrorMaps[candidate];
+    if (errorMap) return errorMap;
+  }
+  return undefined;
+}
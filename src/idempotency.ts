@@ -0,0 +1,160 @@
+import { ActionError } from "./action-error";
+import type {
+  ActionMetadata,
+  ActionResult,
+  MiddlewareFn,
+  MiddlewareResult,
+} from "./action-client";
+import { nameMiddleware } from "./action-definition";
+import { TtlMap } from "./ttl-map";
+
+/**
+ * @description Where the idempotency key sent by the client is kept in the context, so the
+ * `.idempotent()` middleware can read it without it showing up in the typed context.
+ */
+export const IDEMPOTENCY_KEY = Symbol("better-next-actions.idempotencyKey");
+
+/**
+ * @description What a store knows about a key.
+ * - `pending`: a call with this key is running.
+ * - `completed`: a call with this key has finished with `result`.
+ */
+export type IdempotencyRecord =
+  | { status: "pending" }
+  | { status: "completed"; result: ActionResult<unknown> };
+
+/**
+ * @description Stores idempotency records. Implement it on top of Redis (or similar) to deduplicate
+ * calls across server instances; `claim` must be atomic per key.
+ */
+export interface IdempotencyStore {
+  /** Marks the key as pending if it is free and returns null, or returns the existing record. */
+  claim(key: string, ttlMs: number): Promise<IdempotencyRecord | null>;
+  /** Stores the result of the call that claimed the key. */
+  complete(key: string, result: ActionResult<unknown>, ttlMs: number): Promise<void>;
+  /** Frees a claimed key without a result, so the call can run again. */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * @description Options for `ActionBuilder.idempotent`.
+ * @template TContext - The context available when the key is checked.
+ * @template TInput - The parsed input of the action.
+ */
+export type IdempotencyOptions<TContext, TInput> = {
+  /** Scopes keys, e.g. to a user id, so one caller can never replay another caller's result. */
+  scope?: (ctx: TContext, input: TInput) => string | Promise<string>;
+  /** How long results are kept, in milliseconds. Defaults to 24 hours. */
+  ttl?: number;
+  /** How long a duplicate waits for the call in flight, in milliseconds. Defaults to 30 seconds. */
+  wait?: number;
+  /** Defaults to a process-wide `MemoryIdempotencyStore`. */
+  store?: IdempotencyStore;
+};
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+const DEFAULT_WAIT = 30_000;
+const POLL_INTERVAL = 100;
+
+/**
+ * @class MemoryIdempotencyStore
+ * @implements {IdempotencyStore}
+ * @description An in-memory idempotency store. Records are per process, so use a shared store
+ * (e.g. Redis) when running more than one server instance.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new TtlMap<IdempotencyRecord>();
+
+  public async claim(key: string, ttlMs: number): Promise<IdempotencyRecord | null> {
+    const now = Date.now();
+    const record = this.records.get(key, now);
+    if (record) return record;
+
+    this.records.set(key, { status: "pending" }, now + ttlMs);
+    return null;
+  }
+
+  public async complete(
+    key: string,
+    result: ActionResult<unknown>,
+    ttlMs: number
+  ): Promise<void> {
+    this.records.set(key, { status: "completed", result }, Date.now() + ttlMs);
+  }
+
+  public async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+const defaultStore = new MemoryIdempotencyStore();
+
+/**
+ * @description Generates a namespace for the keys of an action without a `metadata.name`.
+ */
+function createNamespace(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * @description Creates the middleware behind `ActionBuilder.idempotent`.
+ * Keys are namespaced with the action's `metadata.name`, or with an id generated per middleware
+ * when there is none, and with the scope. Calls without a key run normally.
+ * The middleware is named `idempotent`, for instrumentation and test overrides.
+ * @param {IdempotencyOptions<any, any>} options - The idempotency options.
+ * @returns {MiddlewareFn<any, {}, any, any>} - A middleware that replays stored results.
+ */
+export function createIdempotencyMiddleware(
+  options: IdempotencyOptions<any, any>
+): MiddlewareFn<any, {}, any, any> {
+  const store = options.store ?? defaultStore;
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const wait = options.wait ?? DEFAULT_WAIT;
+  // Generated ids differ between processes, so only named actions share results across instances.
+  const namespace = createNamespace();
+
+  const idempotent: MiddlewareFn<any, {}, any, any> = async ({
+    ctx,
+    input,
+    metadata,
+    next,
+  }) => {
+    const idempotencyKey = (ctx as { [IDEMPOTENCY_KEY]?: string })[IDEMPOTENCY_KEY];
+    if (!idempotencyKey) return next();
+
+    const name = (metadata as ActionMetadata | undefined)?.name ?? namespace;
+    const scope = options.scope ? await options.scope(ctx, input) : undefined;
+    const key = [name, scope, idempotencyKey].filter(Boolean).join(":");
+    const deadline = Date.now() + wait;
+
+    let record: IdempotencyRecord | null;
+    while ((record = await store.claim(key, ttl)) !== null) {
+      if (record.status === "completed") {
+        return record.result as MiddlewareResult<{}>;
+      }
+      if (Date.now() >= deadline) {
+        throw new ActionError({
+          code: "IDEMPOTENCY_CONFLICT",
+          message: "A request with the same idempotency key is still in progress.",
+        });
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+
+    let result: MiddlewareResult<{}>;
+    try {
+      result = await next();
+    } catch (error) {
+      // Thrown errors are not stored, so the same submission can be retried.
+      await store.release(key);
+      throw error;
+    }
+
+    await store.complete(key, result, ttl);
+    return result;
+  };
+
+  return nameMiddleware(idempotent, "idempotent");
+}
@@ -1,13 +1,97 @@
 export { createActionClient, ActionBuilder } from './action-client';
 export { ActionError } from './action-error';
+export { decodeFormData } from './form-data';
+export { createActionRouter } from './router';
+export { MemoryRateLimitStore } from './rate-limit';
+export { MemoryIdempotencyStore } from './idempotency';
+export type { StreamEvent, StreamHelpers } from './stream';
+export type {
+  Revalidated,
+  RevalidateOptions,
+  RevalidateTargets,
+  Revalidator,
+} from './revalidation';
+export { createOpenTelemetryInstrumentation } from './instrumentation';
+export type {
+  ActionInstrumentation,
+  ActionInvocation,
+  ActionStartEvent,
+  ActionSuccessEvent,
+  ActionErrorEvent,
+  ActionSettledEvent,
+  MiddlewareTiming,
+  ValidationOutcome,
+  SpanLike,
+  TracerLike,
+} from './instrumentation';
+export type { ActionI18nOptions, MessageCatalog } from './i18n';
+export type {
+  ActionRouter,
+  ActionRouterOptions,
+  ActionRouterRecord,
+  ActionRouteContext,
+  ActionManifest,
+  ActionManifestEntry,
+  JsonSchema,
+} from './router';
+export type {
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+} from './idempotency';
+export type {
+  RateLimitAlgorithm,
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitStore,
+} from './rate-limit';
 export type {
   ActionErrorProps,
+  ActionErrorMap,
+  BuiltInErrorProps,
+  TypedActionErrorProps,
+  ValidationErrorProps,
+  BindArgsValidationErrorProps,
   ActionResult,
+  ActionCallOptions,
   ActionSuccess,
   ActionFailure,
+  ActionMetadata,
+  ActionClientOptions,
+  MiddlewareOptions,
+  ActionLogger,
+  MiddlewareFn,
+  MiddlewareNext,
+  MiddlewareResult,
 } from './action-client';
+export type { FieldErrors } from './validation-errors';
 export { useAction } from './use-action';
 export type {
   UseActionState,
   UseActionSetState,
+  ActionStatus,
+  UseActionOptions,
+  ExecuteOptions,
+  ExecuteResult,
+  ConcurrencyMode,
+  UnexpectedErrorProps,
 } from './use-action';
+export { setUnexpectedErrorMessage } from './unexpected-error';
+export type { RetryPolicy, RetryDelay } from './retry';
+export type { ScheduleOptions } from './schedule';
+export { useActionQuery } from './use-action-query';
+export type { UseActionQueryOptions } from './use-action-query';
+export { invalidateActionQuery, setActionQueryData } from './query-cache';
+export { useOptimisticAction } from './use-optimistic-action';
+export type { UseOptimisticActionOptions } from './use-optimistic-action';
+export { useStreamingAction } from './use-streaming-action';
+export type {
+  UseStreamingActionState,
+  UseStreamingActionOptions,
+} from './use-streaming-action';
+export { useActionForm } from './use-action-form';
+export type {
+  UseActionFormOptions,
+  RegisteredField,
+  FieldPath,
+} from './use-action-form';
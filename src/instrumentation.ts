@@ -0,0 +1,203 @@
+import type {
+  ActionErrorProps,
+  ActionLogger,
+  ActionResult,
+} from "./action-client";
+
+/**
+ * @description The outcome of input validation for an invocation.
+ * `skipped` means the action has no input schema (or the invocation stopped before validation).
+ */
+export type ValidationOutcome = "passed" | "failed" | "skipped";
+
+/**
+ * @description The time spent inside a single middleware, excluding the rest of the chain it wraps.
+ * @property {string} name - The name given to the middleware, or its position in the chain.
+ * @property {number} durationMs - The time spent in the middleware itself.
+ */
+export type MiddlewareTiming = { name: string; durationMs: number };
+
+/**
+ * @description Identifies a single action invocation across instrumentation events.
+ * @property {string} id - A unique id for the invocation.
+ * @property {string | undefined} actionName - The action's `metadata.name`, if declared.
+ * @property {unknown} metadata - The action metadata.
+ * @property {number} startedAt - The start time as a Unix timestamp in milliseconds.
+ */
+export type ActionInvocation = {
+  id: string;
+  actionName: string | undefined;
+  metadata: unknown;
+  startedAt: number;
+};
+
+/**
+ * @description Emitted before validation and middleware run.
+ * @property {unknown} input - The raw payload sent by the client.
+ */
+export type ActionStartEvent = ActionInvocation & { input: unknown };
+
+/**
+ * @description Emitted once the invocation has finished, whatever the outcome. Streaming actions
+ * finish when their stream ends, with the final data or the error that ended it.
+ * `interrupted` means a Next.js `redirect()` or `notFound()` ended the invocation, or the client
+ * cancelled the stream.
+ */
+export type ActionSettledEvent = ActionInvocation & {
+  status: "success" | "error" | "interrupted";
+  durationMs: number;
+  validation: ValidationOutcome;
+  middleware: MiddlewareTiming[];
+  /** The time spent in the handler, if it ran. */
+  handlerDurationMs?: number;
+  /** The result sent to the client. Not set for interrupted invocations. */
+  result?: ActionResult<unknown>;
+  /** The code of the returned error, if any. */
+  errorCode?: string;
+  /** The error thrown by middleware or the handler, if any. */
+  cause?: unknown;
+};
+
+/**
+ * @description Emitted when the invocation returns data.
+ */
+export type ActionSuccessEvent = ActionSettledEvent & {
+  status: "success";
+  data: unknown;
+};
+
+/**
+ * @description Emitted when the invocation returns an error.
+ */
+export type ActionErrorEvent = ActionSettledEvent & {
+  status: "error";
+  error: ActionErrorProps;
+};
+
+/**
+ * @description Hooks called for every action invocation. Hooks are not awaited and errors they
+ * throw are logged, so instrumentation can never break an action.
+ */
+export type ActionInstrumentation = {
+  onStart?: (event: ActionStartEvent) => void | Promise<void>;
+  onSuccess?: (event: ActionSuccessEvent) => void | Promise<void>;
+  onError?: (event: ActionErrorEvent) => void | Promise<void>;
+  onSettled?: (event: ActionSettledEvent) => void | Promise<void>;
+};
+
+let invocationCount = 0;
+
+/**
+ * @description Creates a unique id for an invocation.
+ * @returns {string} - The invocation id.
+ */
+export function createInvocationId(): string {
+  invocationCount = (invocationCount + 1) % Number.MAX_SAFE_INTEGER;
+  return `${Date.now().toString(36)}-${invocationCount.toString(36)}`;
+}
+
+/**
+ * @description Calls a hook on every instrumentation, isolating the action from their failures.
+ */
+export function emitInstrumentation<TName extends keyof ActionInstrumentation>(
+  instrumentations: ActionInstrumentation[],
+  name: TName,
+  event: Parameters<NonNullable<ActionInstrumentation[TName]>>[0],
+  logger: ActionLogger
+) {
+  for (const instrumentation of instrumentations) {
+    try {
+      const hook = instrumentation[name] as
+        | ((event: unknown) => unknown)
+        | undefined;
+      const pending = hook?.(event);
+      if (pending instanceof Promise) {
+        pending.catch((error) =>
+          logger.error(`Action instrumentation "${name}" failed:`, error)
+        );
+      }
+    } catch (error) {
+      logger.error(`Action instrumentation "${name}" failed:`, error);
+    }
+  }
+}
+
+type AttributeValue = string | number | boolean;
+
+/**
+ * @description The subset of an OpenTelemetry `Span` used by the adapter.
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException?(exception: unknown): unknown;
+  addEvent?(name: string, attributes?: Record<string, AttributeValue>): unknown;
+  end(endTime?: number): unknown;
+}
+
+/**
+ * @description The subset of an OpenTelemetry `Tracer` used by the adapter, so the library does not
+ * depend on a vendor SDK. Pass `trace.getTracer("my-app")` from `@opentelemetry/api`.
+ */
+export interface TracerLike {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, AttributeValue>; startTime?: number }
+  ): SpanLike;
+}
+
+/** Mirrors `SpanStatusCode` from `@opentelemetry/api`. */
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * @description Creates an instrumentation that records a span for every action invocation.
+ * Middleware timings are recorded as span events.
+ * @param {TracerLike} tracer - An OpenTelemetry-compatible tracer.
+ * @returns {ActionInstrumentation} - The instrumentation to pass to `createActionClient`.
+ */
+export function createOpenTelemetryInstrumentation(
+  tracer: TracerLike
+): ActionInstrumentation {
+  const spans = new Map<string, SpanLike>();
+
+  return {
+    onStart: (event) => {
+      const name = event.actionName ?? "anonymous";
+      spans.set(
+        event.id,
+        tracer.startSpan(`action ${name}`, {
+          attributes: { "action.name": name },
+          startTime: event.startedAt,
+        })
+      );
+    },
+    onSettled: (event) => {
+      const span = spans.get(event.id);
+      if (!span) return;
+      spans.delete(event.id);
+
+      span.setAttribute("action.status", event.status);
+      span.setAttribute("action.validation", event.validation);
+      span.setAttribute("action.duration_ms", event.durationMs);
+      if (event.handlerDurationMs !== undefined) {
+        span.setAttribute("action.handler.duration_ms", event.handlerDurationMs);
+      }
+      for (const timing of event.middleware) {
+        span.addEvent?.(`middleware ${timing.name}`, {
+          "action.middleware.duration_ms": timing.durationMs,
+        });
+      }
+
+      if (event.status === "error") {
+        if (event.errorCode) span.setAttribute("action.error.code", event.errorCode);
+        if (event.cause !== undefined) span.recordException?.(event.cause);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: event.errorCode });
+      } else {
+        span.setStatus({ code: SPAN_STATUS_OK });
+      }
+
+      span.end(event.startedAt + event.durationMs);
+    },
+  };
+}
@@ -0,0 +1,298 @@
+import type { ActionResult } from "./action-client";
+import { toUnexpectedError } from "./unexpected-error";
+import type { ActionInput, ExtractData, UseActionState } from "./use-action";
+
+type AnyAction = (payload: any) => Promise<ActionResult<any>>;
+
+/**
+ * @description A cached action result, shared by every `useActionQuery` with the same action and input.
+ */
+export type QueryEntry = {
+  state: UseActionState<unknown, unknown, unknown>;
+  input: unknown;
+  /** The serialized input the entry is cached under. */
+  key: string;
+  promise: Promise<void> | null;
+  /** Set by `invalidate`, so the entry is refetched even if it is still fresh. */
+  invalidated: boolean;
+  listeners: Set<() => void>;
+  /** Removes the entry once it has had no listeners for `GC_TIME`. */
+  gcTimer: ReturnType<typeof setTimeout> | null;
+};
+
+/** How long an entry nothing renders is kept, so remounting shows it without a refetch. */
+const GC_TIME = 5 * 60 * 1000;
+
+// Keyed by the action itself, so entries never collide across actions and go away with them.
+// Kept on `globalThis`, so every entry point that bundles this module shares one cache.
+const CACHE_KEY = Symbol.for("better-next-actions.queryCache");
+const cache = ((globalThis as { [CACHE_KEY]?: WeakMap<AnyAction, Map<string, QueryEntry>> })[
+  CACHE_KEY
+] ??= new WeakMap());
+
+/**
+ * @description Whether the code runs on the server, where a shared cache would leak one
+ * request's data into the next.
+ */
+function isServer(): boolean {
+  return typeof window === "undefined";
+}
+
+function scheduleGc(action: AnyAction, entry: QueryEntry) {
+  if (entry.gcTimer) clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = null;
+    if (entry.listeners.size > 0) return;
+
+    const entries = cache.get(action);
+    if (entries?.get(entry.key) !== entry) return;
+    entries.delete(entry.key);
+    if (entries.size === 0) cache.delete(action);
+  }, GC_TIME);
+}
+
+/**
+ * @description Serializes an input into a cache key. Object keys are sorted, so
+ * `{ a, b }` and `{ b, a }` share an entry.
+ * @param {unknown} input - The action input.
+ * @returns {string} - The cache key.
+ */
+export function serializeQueryInput(input: unknown): string {
+  return (
+    JSON.stringify(input, (_key, value: unknown) =>
+      value && typeof value === "object" && !Array.isArray(value)
+        ? Object.fromEntries(
+            Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+          )
+        : value
+    ) ?? ""
+  );
+}
+
+function notify(entry: QueryEntry) {
+  entry.listeners.forEach((listener) => listener());
+}
+
+function setEntryState(
+  entry: QueryEntry,
+  state: Partial<UseActionState<unknown, unknown, unknown>>
+) {
+  entry.state = { ...entry.state, ...state };
+  notify(entry);
+}
+
+/**
+ * @description Returns the cache entry for an action and input, creating it if needed.
+ * On the server a new, uncached entry is returned every time.
+ * @param {AnyAction} action - The action.
+ * @param {unknown} input - The action input.
+ * @param {unknown} [initial] - Data to seed a new entry with. It counts as fetched when the entry is created.
+ * @returns {QueryEntry} - The cache entry.
+ */
+export function getQueryEntry(
+  action: AnyAction,
+  input: unknown,
+  initial?: unknown
+): QueryEntry {
+  const key = serializeQueryInput(input);
+  let entries = cache.get(action);
+  let entry = entries?.get(key);
+
+  if (!entry) {
+    const hasInitial = initial !== undefined;
+    entry = {
+      state: {
+        status: hasInitial ? "success" : "idle",
+        isError: false,
+        error: null,
+        data: hasInitial ? initial : null,
+        revalidated: null,
+        input: hasInitial ? input : null,
+        executedAt: null,
+        settledAt: hasInitial ? Date.now() : null,
+        attempt: 0,
+      },
+      input,
+      key,
+      promise: null,
+      invalidated: false,
+      listeners: new Set(),
+      gcTimer: null,
+    };
+    if (isServer()) return entry;
+
+    if (!entries) {
+      entries = new Map();
+      cache.set(action, entries);
+    }
+    entries.set(key, entry);
+    scheduleGc(action, entry);
+  }
+  return entry;
+}
+
+/**
+ * @description Subscribes to an entry. Entries are kept while they have listeners, and removed
+ * from the cache a while after the last one unsubscribes.
+ * @param {AnyAction} action - The action the entry belongs to.
+ * @param {QueryEntry} entry - The cache entry.
+ * @param {() => void} listener - Called whenever the entry changes.
+ * @returns {() => void} - Unsubscribes the listener.
+ */
+export function subscribeQueryEntry(
+  action: AnyAction,
+  entry: QueryEntry,
+  listener: () => void
+): () => void {
+  entry.listeners.add(listener);
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+  }
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0 && !isServer()) scheduleGc(action, entry);
+  };
+}
+
+/**
+ * @description Whether an entry should be refetched: it has never succeeded, was invalidated,
+ * or its data is older than `staleTime`.
+ * @param {QueryEntry} entry - The cache entry.
+ * @param {number} staleTime - How long data stays fresh, in milliseconds.
+ * @returns {boolean} - True if the entry is stale.
+ */
+export function isQueryStale(entry: QueryEntry, staleTime: number): boolean {
+  const { status, settledAt } = entry.state;
+  return (
+    entry.invalidated ||
+    status !== "success" ||
+    settledAt === null ||
+    Date.now() - settledAt >= staleTime
+  );
+}
+
+/**
+ * @description Fetches an entry, keeping its current data while the request is in flight.
+ * Concurrent calls for the same entry share one request.
+ * @param {AnyAction} action - The action.
+ * @param {QueryEntry} entry - The cache entry to fetch.
+ * @returns {Promise<void>} - Resolves once the entry has settled.
+ */
+export function fetchQueryEntry(
+  action: AnyAction,
+  entry: QueryEntry
+): Promise<void> {
+  if (entry.promise) return entry.promise;
+
+  const executedAt = Date.now();
+  entry.invalidated = false;
+  setEntryState(entry, {
+    status: "executing",
+    isError: false,
+    error: null,
+    input: entry.input,
+    executedAt,
+    settledAt: null,
+    attempt: 1,
+  });
+
+  entry.promise = (async () => {
+    let result: ActionResult<unknown>;
+    try {
+      result = await action(entry.input);
+    } catch (e: unknown) {
+      result = { data: null, error: toUnexpectedError(e) };
+    }
+
+    entry.promise = null;
+    if (result.error) {
+      setEntryState(entry, {
+        status: "error",
+        isError: true,
+        error: result.error,
+        settledAt: Date.now(),
+      });
+    } else {
+      setEntryState(entry, {
+        status: "success",
+        data: result.data,
+        revalidated: result.revalidated ?? null,
+        settledAt: Date.now(),
+      });
+    }
+
+    // Invalidated while in flight, so the result may already be outdated.
+    if (entry.invalidated && entry.listeners.size > 0) {
+      await fetchQueryEntry(action, entry);
+    }
+  })();
+
+  return entry.promise;
+}
+
+/**
+ * @description Marks cached results of an action as stale. Entries that are currently rendered
+ * are refetched right away; the rest are refetched the next time they are used.
+ * @param {TAction} action - The action whose results are invalidated.
+ * @param {...[] | [ActionInput<TAction>]} input - The input to invalidate. Omit it to invalidate every input.
+ * @returns {Promise<void>} - Resolves once the rendered entries have been refetched.
+ */
+export function invalidateActionQuery<TAction extends AnyAction>(
+  action: TAction,
+  ...input: [] | [ActionInput<TAction>]
+): Promise<void> {
+  const entries = cache.get(action);
+  if (!entries) return Promise.resolve();
+
+  const targets =
+    input.length === 0
+      ? [...entries.values()]
+      : [entries.get(serializeQueryInput(input[0]))].filter(
+          (entry): entry is QueryEntry => entry !== undefined
+        );
+
+  return Promise.all(
+    targets.map((entry) => {
+      entry.invalidated = true;
+      if (entry.promise) return entry.promise;
+      return entry.listeners.size > 0
+        ? fetchQueryEntry(action, entry)
+        : undefined;
+    })
+  ).then(() => undefined);
+}
+
+/**
+ * @description Replaces the cached data for an action and input, e.g. with the result of a
+ * mutation. Every `useActionQuery` rendering that entry updates, and the data counts as fresh.
+ * @param {TAction} action - The action whose result is updated.
+ * @param {ActionInput<TAction>} input - The input the data belongs to.
+ * @param {TData | ((current: TData | null) => TData)} data - The new data, or a function computing it from the current data.
+ * @returns {void}
+ */
+export function setActionQueryData<
+  TAction extends AnyAction,
+  TData = ExtractData<Awaited<ReturnType<TAction>>>
+>(
+  action: TAction,
+  input: ActionInput<TAction>,
+  data: TData | ((current: TData | null) => TData)
+): void {
+  const entry = getQueryEntry(action, input);
+  const next =
+    typeof data === "function"
+      ? (data as (current: TData | null) => TData)(entry.state.data as TData | null)
+      : data;
+
+  entry.invalidated = false;
+  setEntryState(entry, {
+    status: "success",
+    isError: false,
+    error: null,
+    data: next,
+    input,
+    settledAt: Date.now(),
+  });
+}
@@ -0,0 +1,197 @@
+import { ActionError } from "./action-error";
+import type { ActionMetadata, MiddlewareFn } from "./action-client";
+import { nameMiddleware } from "./action-definition";
+import type { StandardSchemaV1 } from "./standard-schema";
+import { TtlMap } from "./ttl-map";
+
+/**
+ * @description The algorithms a rate-limit store must support.
+ * - `fixed-window`: at most `limit` calls per `window`, counted from the first call of the window.
+ * - `token-bucket`: a bucket of `limit` tokens that refills continuously over `window`, allowing short bursts.
+ */
+export type RateLimitAlgorithm = "fixed-window" | "token-bucket";
+
+/**
+ * @description The outcome of consuming one call from a rate limit.
+ * @property {boolean} allowed - True if the call may proceed.
+ * @property {number} remaining - The calls left before the limit is hit.
+ * @property {number} retryAfterMs - Milliseconds until the next call would be allowed (0 if allowed).
+ */
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+};
+
+/**
+ * @description Stores rate-limit state. Implement it on top of Redis (or similar) to share limits
+ * across server instances; `consume` must be atomic per key.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    options: { algorithm: RateLimitAlgorithm; limit: number; windowMs: number }
+  ): Promise<RateLimitResult>;
+}
+
+/**
+ * @description Options for `ActionBuilder.rateLimit`.
+ * @template TContext - The context available when the limit is checked.
+ * @template TInput - The parsed input of the action.
+ */
+export type RateLimitOptions<TContext, TInput> = {
+  /** Identifies who is being limited, e.g. a user id or IP address. */
+  key: (ctx: TContext, input: TInput) => string | Promise<string>;
+  /** The number of calls allowed per window. */
+  limit: number;
+  /** The window length in milliseconds. */
+  window: number;
+  /** Defaults to `"fixed-window"`. */
+  algorithm?: RateLimitAlgorithm;
+  /** Defaults to a process-wide `MemoryRateLimitStore`. */
+  store?: RateLimitStore;
+  /** The message sent to the client when the limit is hit. */
+  message?: string;
+};
+
+/**
+ * @description The details of a `RATE_LIMITED` error.
+ * @property {number} retryAfterMs - Milliseconds until the next call would be allowed.
+ * @property {number} limit - The number of calls allowed per window.
+ */
+export type RateLimitedDetails = { retryAfterMs: number; limit: number };
+
+/**
+ * @description The schema of `RATE_LIMITED` details. Written by hand as a Standard Schema, so rate
+ * limiting works without Zod installed.
+ */
+export const rateLimitedDetailsSchema: StandardSchemaV1<RateLimitedDetails> = {
+  "~standard": {
+    version: 1,
+    vendor: "better-next-actions",
+    validate: (value) => {
+      const { retryAfterMs, limit } = (value ?? {}) as Partial<RateLimitedDetails>;
+      return typeof retryAfterMs === "number" && typeof limit === "number"
+        ? { value: { retryAfterMs, limit } }
+        : { issues: [{ message: "Expected { retryAfterMs: number, limit: number }." }] };
+    },
+  },
+};
+
+type MemoryEntry =
+  | { algorithm: "fixed-window"; count: number; resetAt: number }
+  | { algorithm: "token-bucket"; tokens: number; updatedAt: number };
+
+/**
+ * @class MemoryRateLimitStore
+ * @implements {RateLimitStore}
+ * @description An in-memory rate-limit store. Limits are per process, so use a shared store
+ * (e.g. Redis) when running more than one server instance.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new TtlMap<MemoryEntry>();
+
+  public async consume(
+    key: string,
+    options: { algorithm: RateLimitAlgorithm; limit: number; windowMs: number }
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    return options.algorithm === "token-bucket"
+      ? this.consumeTokenBucket(key, options, now)
+      : this.consumeFixedWindow(key, options, now);
+  }
+
+  private consumeFixedWindow(
+    key: string,
+    { limit, windowMs }: { limit: number; windowMs: number },
+    now: number
+  ): RateLimitResult {
+    let entry = this.entries.get(key, now);
+
+    if (!entry || entry.algorithm !== "fixed-window" || entry.resetAt <= now) {
+      entry = { algorithm: "fixed-window", count: 0, resetAt: now + windowMs };
+      this.entries.set(key, entry, entry.resetAt);
+    }
+
+    if (entry.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: entry.resetAt - now };
+    }
+
+    entry.count++;
+    return { allowed: true, remaining: limit - entry.count, retryAfterMs: 0 };
+  }
+
+  private consumeTokenBucket(
+    key: string,
+    { limit, windowMs }: { limit: number; windowMs: number },
+    now: number
+  ): RateLimitResult {
+    const refillPerMs = limit / windowMs;
+    const entry = this.entries.get(key, now);
+
+    let tokens =
+      entry?.algorithm === "token-bucket"
+        ? Math.min(limit, entry.tokens + (now - entry.updatedAt) * refillPerMs)
+        : limit;
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    this.entries.set(
+      key,
+      { algorithm: "token-bucket", tokens, updatedAt: now },
+      // Once the bucket is full again the entry carries no information.
+      now + (limit - tokens) / refillPerMs
+    );
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    };
+  }
+}
+
+const defaultStore = new MemoryRateLimitStore();
+
+/**
+ * @description Creates the middleware behind `ActionBuilder.rateLimit`.
+ * Keys are namespaced with the action's `metadata.name` when one is declared.
+ * The middleware is named `rateLimit`, for instrumentation and test overrides.
+ * @param {RateLimitOptions<any, any>} options - The rate-limit options.
+ * @returns {MiddlewareFn<any, {}, any, any>} - A middleware that throws `RATE_LIMITED` when the limit is hit.
+ */
+export function createRateLimitMiddleware(
+  options: RateLimitOptions<any, any>
+): MiddlewareFn<any, {}, any, any> {
+  const store = options.store ?? defaultStore;
+  const algorithm = options.algorithm ?? "fixed-window";
+
+  const rateLimit: MiddlewareFn<any, {}, any, any> = async ({
+    ctx,
+    input,
+    metadata,
+    next,
+  }) => {
+    const name = (metadata as ActionMetadata | undefined)?.name;
+    const key = await options.key(ctx, input);
+    const result = await store.consume(name ? `${name}:${key}` : key, {
+      algorithm,
+      limit: options.limit,
+      windowMs: options.window,
+    });
+
+    if (!result.allowed) {
+      throw new ActionError({
+        code: "RATE_LIMITED",
+        message: options.message ?? "Too many requests. Please try again later.",
+        details: { retryAfterMs: result.retryAfterMs, limit: options.limit },
+      });
+    }
+
+    return next();
+  };
+
+  return nameMiddleware(rateLimit, "rateLimit");
+}
@@ -0,0 +1,103 @@
+import type { ActionErrorProps } from "./action-client";
+
+/**
+ * @description When a failed call is retried: a maximum number of retries, or a predicate over the
+ * error and the number of the attempt that failed (starting at 1).
+ * A number only retries errors that are usually transient: `UNEXPECTED_ERROR` (the call itself
+ * failed, e.g. the network dropped) and `RATE_LIMITED`. `INTERNAL_SERVER_ERROR` is not retried by
+ * default, as the handler may have done part of its work before throwing; use a predicate to opt in.
+ * @template TError - The type of the errors the action can return.
+ */
+export type RetryPolicy<TError = ActionErrorProps> =
+  | number
+  | ((error: TError, attempt: number) => boolean);
+
+/**
+ * @description The delay before a retry in milliseconds, or a function computing it from the
+ * number of the attempt that failed and its error. Defaults to exponential backoff with jitter.
+ * @template TError - The type of the errors the action can return.
+ */
+export type RetryDelay<TError = ActionErrorProps> =
+  | number
+  | ((attempt: number, error: TError) => number);
+
+const TRANSIENT_ERROR_CODES = new Set(["UNEXPECTED_ERROR", "RATE_LIMITED"]);
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * @description Decides whether a failed attempt should be retried.
+ * @param {RetryPolicy<TError> | undefined} policy - The retry policy.
+ * @param {TError} error - The error of the failed attempt.
+ * @param {number} attempt - The number of the attempt that failed, starting at 1.
+ * @returns {boolean} - True if the call should be retried.
+ */
+export function shouldRetry<TError>(
+  policy: RetryPolicy<TError> | undefined,
+  error: TError,
+  attempt: number
+): boolean {
+  if (policy === undefined) return false;
+  if (typeof policy === "function") return policy(error, attempt);
+
+  const code = (error as ActionErrorProps | null)?.code;
+  return attempt <= policy && code !== undefined && TRANSIENT_ERROR_CODES.has(code);
+}
+
+/**
+ * @description Computes the delay before the next attempt. A `retryAfterMs` in the error details
+ * (as sent with `RATE_LIMITED`) is a lower bound, so the server is never retried too early.
+ * @param {RetryDelay<TError> | undefined} delay - The configured delay.
+ * @param {TError} error - The error of the failed attempt.
+ * @param {number} attempt - The number of the attempt that failed, starting at 1.
+ * @returns {number} - The delay in milliseconds.
+ */
+export function getRetryDelay<TError>(
+  delay: RetryDelay<TError> | undefined,
+  error: TError,
+  attempt: number
+): number {
+  let delayMs: number;
+  if (typeof delay === "function") {
+    delayMs = delay(attempt, error);
+  } else if (typeof delay === "number") {
+    delayMs = delay;
+  } else {
+    // Exponential backoff with "equal jitter": half fixed, half random.
+    const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    delayMs = backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  const details = (error as ActionErrorProps | null)?.details as
+    | { retryAfterMs?: unknown }
+    | undefined;
+  const retryAfterMs = details?.retryAfterMs;
+
+  return typeof retryAfterMs === "number"
+    ? Math.max(delayMs, retryAfterMs)
+    : delayMs;
+}
+
+/**
+ * @description Waits for a delay unless the signal is aborted first.
+ * @param {number} ms - The delay in milliseconds.
+ * @param {AbortSignal} signal - Aborts the wait.
+ * @returns {Promise<boolean>} - True if the delay elapsed, false if it was aborted.
+ */
+export function waitFor(ms: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve(false);
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve(false);
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
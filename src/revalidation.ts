@@ -0,0 +1,96 @@
+import type { ActionLogger } from "./action-client";
+
+/**
+ * @description The paths and tags revalidated after a successful invocation.
+ * @property {string[]} paths - The revalidated paths.
+ * @property {string[]} tags - The revalidated cache tags.
+ */
+export type Revalidated = { paths: string[]; tags: string[] };
+
+/**
+ * @description The functions used to revalidate the Next.js cache. Pass `revalidatePath` and
+ * `revalidateTag` from `next/cache`, so the library does not depend on a Next.js version.
+ */
+export type Revalidator = {
+  path: (path: string) => void | Promise<void>;
+  tag: (tag: string) => void | Promise<void>;
+};
+
+/**
+ * @description A list of paths or tags, or a function computing them from the invocation.
+ * @template TContext - The context available when the action ran.
+ * @template TInput - The parsed input of the action.
+ * @template TData - The data returned by the action.
+ */
+export type RevalidateTargets<TContext, TInput, TData> =
+  | string[]
+  | ((args: { input: TInput; data: TData; ctx: TContext }) => string[]);
+
+/**
+ * @description Options for `ActionBuilder.revalidates`.
+ * @template TContext - The context available when the action ran.
+ * @template TInput - The parsed input of the action.
+ * @template TData - The data returned by the action.
+ */
+export type RevalidateOptions<TContext, TInput, TData> = {
+  paths?: RevalidateTargets<TContext, TInput, TData>;
+  tags?: RevalidateTargets<TContext, TInput, TData>;
+};
+
+/**
+ * @description Resolves a list of targets for a single invocation.
+ */
+function resolveTargets(
+  targets: RevalidateTargets<any, any, any> | undefined,
+  args: { input: unknown; data: unknown; ctx: unknown }
+): string[] {
+  if (!targets) return [];
+  return typeof targets === "function" ? targets(args) : targets;
+}
+
+/**
+ * @description Revalidates the paths and tags declared with `ActionBuilder.revalidates`.
+ * A failing path or tag is logged and left out of the result, since the mutation already succeeded.
+ * @param {RevalidateOptions<any, any, any>[]} revalidations - The declared revalidations.
+ * @param {Revalidator} revalidator - The functions that revalidate the cache.
+ * @param {{ input: unknown; data: unknown; ctx: unknown }} args - The invocation the targets are computed from.
+ * @param {ActionLogger} logger - Receives revalidation failures.
+ * @returns {Promise<Revalidated>} - The paths and tags that were revalidated.
+ */
+export async function applyRevalidations(
+  revalidations: RevalidateOptions<any, any, any>[],
+  revalidator: Revalidator,
+  args: { input: unknown; data: unknown; ctx: unknown },
+  logger: ActionLogger
+): Promise<Revalidated> {
+  const revalidated: Revalidated = { paths: [], tags: [] };
+
+  for (const revalidation of revalidations) {
+    const targets = [
+      ["paths", revalidator.path],
+      ["tags", revalidator.tag],
+    ] as const;
+
+    for (const [kind, revalidate] of targets) {
+      let values: string[];
+      try {
+        values = resolveTargets(revalidation[kind], args);
+      } catch (error) {
+        logger.error(`Action revalidation failed to compute ${kind}:`, error);
+        continue;
+      }
+
+      for (const value of values) {
+        if (revalidated[kind].includes(value)) continue;
+        try {
+          await revalidate(value);
+          revalidated[kind].push(value);
+        } catch (error) {
+          logger.error(`Action revalidation failed for "${value}":`, error);
+        }
+      }
+    }
+  }
+
+  return revalidated;
+}
@@ -0,0 +1,353 @@
+import type { z } from "zod";
+import type { ActionErrorProps, ActionResult } from "./action-client";
+import {
+  getActionDefinition,
+  type ActionDefinition,
+} from "./action-definition";
+import { isZodSchema, type StandardSchemaV1 } from "./standard-schema";
+import type { StreamEvent } from "./stream";
+
+type AnyAction = (...args: any[]) => Promise<ActionResult<any>>;
+
+/**
+ * @description Actions grouped by name. Groups can be nested; the keys form the action's path,
+ * e.g. `{ posts: { create } }` serves `create` at `posts/create`.
+ */
+export type ActionRouterRecord = {
+  [key: string]: AnyAction | ActionRouterRecord;
+};
+
+/**
+ * @description A JSON Schema, as generated by `z.toJSONSchema`.
+ */
+export type JsonSchema = z.core.JSONSchema.JSONSchema;
+
+/**
+ * @description What the manifest documents about a single action. Schemas that are not Zod
+ * schemas cannot be converted and are `null`, like schemas that are not set.
+ * @property {string} path - The path the action is served at, e.g. `posts/create`.
+ * @property {"action" | "formAction" | "streamAction"} kind - The builder terminal that created the action.
+ * @property {unknown} metadata - The resolved action metadata.
+ * @property {JsonSchema | null} input - The JSON Schema of the input the action accepts.
+ * @property {Array<JsonSchema | null>} bindArgs - The JSON Schemas of the bound arguments, in order.
+ * @property {JsonSchema | null} output - The JSON Schema of the data the action returns.
+ * @property {Record<string, JsonSchema | null>} errors - The declared error codes and the JSON Schemas of their details.
+ */
+export type ActionManifestEntry = {
+  path: string;
+  kind: ActionDefinition["kind"];
+  metadata: unknown;
+  input: JsonSchema | null;
+  bindArgs: Array<JsonSchema | null>;
+  output: JsonSchema | null;
+  errors: Record<string, JsonSchema | null>;
+};
+
+/**
+ * @description A JSON description of every action in a router.
+ */
+export type ActionManifest = { actions: ActionManifestEntry[] };
+
+/**
+ * @description The second argument Next.js passes to route handlers of a `[...path]` segment.
+ * `params` is a promise since Next.js 15.
+ */
+export type ActionRouteContext = {
+  params: Promise<{ path?: string[] }> | { path?: string[] };
+};
+
+/**
+ * @description Options for `createActionRouter`.
+ * @property {string[]} [allowedOrigins] - Origins besides the router's own host that may call actions from a browser, e.g. `https://app.example.com`.
+ */
+export type ActionRouterOptions = {
+  allowedOrigins?: string[];
+};
+
+/**
+ * @description A group of actions with a manifest and an App Router route handler.
+ * @template TActions - The actions of the router.
+ * @property {TActions} actions - The actions, exactly as passed in.
+ * @property {() => Promise<ActionManifest>} manifest - Describes every action, with JSON Schemas for input and output.
+ * @property {(request: Request, context: ActionRouteContext) => Promise<Response>} POST - Calls an action over HTTP.
+ */
+export type ActionRouter<TActions extends ActionRouterRecord> = {
+  actions: TActions;
+  manifest: () => Promise<ActionManifest>;
+  POST: (request: Request, context: ActionRouteContext) => Promise<Response>;
+};
+
+/**
+ * @description HTTP statuses for error codes with an obvious equivalent. Other codes are sent as 400.
+ */
+const ERROR_STATUS: Record<string, number> = {
+  BAD_REQUEST: 400,
+  VALIDATION_ERROR: 400,
+  BIND_ARGS_VALIDATION_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  ACTION_NOT_FOUND: 404,
+  CONFLICT: 409,
+  IDEMPOTENCY_CONFLICT: 409,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  RATE_LIMITED: 429,
+  INTERNAL_SERVER_ERROR: 500,
+  OUTPUT_VALIDATION_ERROR: 500,
+};
+
+/**
+ * @description Converts a schema to JSON Schema, if it is a Zod schema. Types JSON Schema cannot
+ * describe (dates, transforms) are documented as `{}` instead of failing the whole manifest.
+ * Zod is only loaded here, so routers whose actions use other schema libraries never need it.
+ */
+async function toJsonSchema(
+  schema: StandardSchemaV1 | null | undefined,
+  io: "input" | "output"
+): Promise<JsonSchema | null> {
+  if (!schema || !isZodSchema(schema)) return null;
+  const { z } = await import("zod");
+  return z.toJSONSchema(schema, { io, unrepresentable: "any" });
+}
+
+/**
+ * @description Describes the actions of a router.
+ */
+async function buildManifest(
+  routes: Map<string, ActionDefinition>
+): Promise<ActionManifest> {
+  return {
+    actions: await Promise.all(
+      [...routes].map(async ([path, definition]) => ({
+        path,
+        kind: definition.kind,
+        metadata: definition.metadata,
+        input: await toJsonSchema(definition.inputSchema, "input"),
+        bindArgs: await Promise.all(
+          definition.bindArgsSchemas.map((schema) => toJsonSchema(schema, "input"))
+        ),
+        output: await toJsonSchema(definition.outputSchema, "output"),
+        errors: Object.fromEntries(
+          await Promise.all(
+            Object.entries(definition.errorSchemas).map(async ([code, schema]) => [
+              code,
+              await toJsonSchema(schema, "output"),
+            ])
+          )
+        ),
+      }))
+    ),
+  };
+}
+
+/**
+ * @description Flattens nested groups into actions keyed by path.
+ * @throws {TypeError} If a value is neither a group nor an action created with `ActionBuilder`.
+ */
+function collectActions(
+  record: ActionRouterRecord,
+  prefix: string[],
+  routes: Map<string, ActionDefinition>
+): Map<string, ActionDefinition> {
+  for (const [key, value] of Object.entries(record)) {
+    const path = [...prefix, key];
+
+    if (typeof value !== "function") {
+      collectActions(value, path, routes);
+      continue;
+    }
+
+    const definition = getActionDefinition(value);
+    if (!definition) {
+      throw new TypeError(
+        `createActionRouter expects actions created with ActionBuilder, but "${path.join(".")}" is not one.`
+      );
+    }
+    routes.set(path.join("/"), definition);
+  }
+  return routes;
+}
+
+/**
+ * @description Sends a failed `ActionResult` with the status that matches its error code.
+ */
+function errorResponse(error: ActionErrorProps): Response {
+  return Response.json(
+    { data: null, error },
+    { status: (error.code && ERROR_STATUS[error.code]) || 400 }
+  );
+}
+
+/**
+ * @description Streams the events of a streaming action as newline-delimited JSON.
+ */
+function streamResponse(events: ReadableStream<StreamEvent<unknown, unknown, unknown>>): Response {
+  const encoder = new TextEncoder();
+  const body = events.pipeThrough(
+    new TransformStream<StreamEvent<unknown, unknown, unknown>, Uint8Array>({
+      transform(event, controller) {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      },
+    })
+  );
+
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson" },
+  });
+}
+
+/**
+ * @description Whether a request may call actions. Browsers send `Origin` with every POST, so
+ * cross-site requests (which carry the user's cookies) are recognized by it and only let through
+ * from the router's own host or an allowed origin. Requests without `Origin` do not come from a
+ * browser and are allowed.
+ */
+function isAllowedOrigin(request: Request, allowedOrigins: string[]): boolean {
+  const origin = request.headers.get("origin");
+  if (origin === null) return true;
+  if (allowedOrigins.includes(origin)) return true;
+
+  const host =
+    request.headers.get("x-forwarded-host")?.split(",")[0].trim() ??
+    request.headers.get("host") ??
+    new URL(request.url).host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    // Sandboxed documents and some redirects send `Origin: null`.
+    return false;
+  }
+}
+
+/**
+ * @description Reads the payload and bound arguments of a request. JSON bodies are
+ * `{ input, bindArgs }` and must be sent as `application/json`, which browsers cannot send
+ * cross-site without CORS; form actions also accept `multipart/form-data` and url-encoded bodies.
+ * @returns The payload and bound arguments, or the error to respond with.
+ */
+async function readRequest(
+  request: Request,
+  definition: ActionDefinition
+): Promise<
+  | { input: unknown; bindArgs: unknown[] }
+  | { error: ActionErrorProps }
+> {
+  const contentType = (request.headers.get("content-type") ?? "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+
+  if (
+    contentType === "multipart/form-data" ||
+    contentType === "application/x-www-form-urlencoded"
+  ) {
+    if (definition.kind !== "formAction") {
+      return {
+        error: {
+          code: "BAD_REQUEST",
+          message: "Only form actions accept form data. Send a JSON body instead.",
+        },
+      };
+    }
+    return { input: await request.formData(), bindArgs: [] };
+  }
+
+  if (contentType !== "application/json") {
+    return {
+      error: {
+        code: "UNSUPPORTED_MEDIA_TYPE",
+        message: "Send the request body as application/json.",
+      },
+    };
+  }
+
+  const text = await request.text();
+  let body: unknown = {};
+  try {
+    if (text.trim() !== "") body = JSON.parse(text);
+  } catch {
+    return { error: { code: "BAD_REQUEST", message: "The request body is not valid JSON." } };
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return {
+      error: {
+        code: "BAD_REQUEST",
+        message: 'The request body must be an object: { "input": ..., "bindArgs": [...] }.',
+      },
+    };
+  }
+
+  const { input, bindArgs = [] } = body as { input?: unknown; bindArgs?: unknown };
+  if (!Array.isArray(bindArgs)) {
+    return { error: { code: "BAD_REQUEST", message: "bindArgs must be an array." } };
+  }
+  return { input, bindArgs };
+}
+
+/**
+ * @description Groups actions into a router. The actions are not changed: each keeps its own
+ * middleware, validation, metadata and error handling, whether it is called as a server action,
+ * through the route handler, or from the testing helpers.
+ * @template TActions - The actions of the router.
+ * @param {TActions} actions - The actions, grouped by name. Groups can be nested.
+ * @param {ActionRouterOptions} [options={}] - Options for the route handler.
+ * @returns {ActionRouter<TActions>} - The router.
+ * @throws {TypeError} If a value is neither a group nor an action created with `ActionBuilder`.
+ */
+export function createActionRouter<TActions extends ActionRouterRecord>(
+  actions: TActions,
+  options: ActionRouterOptions = {}
+): ActionRouter<TActions> {
+  const routes = collectActions(actions, [], new Map());
+  const allowedOrigins = options.allowedOrigins ?? [];
+  let manifest: Promise<ActionManifest> | undefined;
+
+  return {
+    actions,
+
+    manifest: () => {
+      manifest ??= buildManifest(routes);
+      return manifest;
+    },
+
+    POST: async (request, context) => {
+      if (!isAllowedOrigin(request, allowedOrigins)) {
+        return errorResponse({
+          code: "FORBIDDEN",
+          message: "Cross-origin requests are not allowed.",
+        });
+      }
+
+      const { path = [] } = await context.params;
+      const definition = routes.get(path.join("/"));
+      if (!definition) {
+        return errorResponse({
+          code: "ACTION_NOT_FOUND",
+          message: `No action is served at "${path.join("/")}".`,
+        });
+      }
+
+      const payload = await readRequest(request, definition);
+      if ("error" in payload) return errorResponse(payload.error);
+
+      // Redirects and other Next.js control-flow errors propagate, so Next.js handles them.
+      const result = await definition.run(payload.input, undefined, {
+        bindArgs: payload.bindArgs,
+        // Streamed results are never stored, so streaming actions do not take a key.
+        idempotencyKey:
+          definition.kind === "streamAction"
+            ? undefined
+            : request.headers.get("idempotency-key") ?? undefined,
+      });
+
+      if (result.error) return errorResponse(result.error as ActionErrorProps);
+      if (definition.kind === "streamAction") {
+        return streamResponse(
+          result.data as ReadableStream<StreamEvent<unknown, unknown, unknown>>
+        );
+      }
+      return Response.json(result);
+    },
+  };
+}
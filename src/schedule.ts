@@ -0,0 +1,92 @@
+/**
+ * @description Controls when a debounced or throttled call runs.
+ * A number is shorthand for `{ wait }`.
+ * @property {number} wait - The delay in milliseconds.
+ * @property {boolean} [leading] - Run on the first call of a burst.
+ * @property {boolean} [trailing] - Run with the last arguments once the burst (or interval) ends.
+ */
+export type ScheduleOptions =
+  | number
+  | { wait: number; leading?: boolean; trailing?: boolean };
+
+/**
+ * @description A debounced or throttled function.
+ */
+export type ScheduledFn<TArgs extends unknown[]> = {
+  /** Schedules a call with the given arguments. */
+  call: (...args: TArgs) => void;
+  /** Runs the pending trailing call immediately, if there is one. */
+  flush: () => void;
+  /** Drops the pending trailing call, if there is one. */
+  cancel: () => void;
+};
+
+/**
+ * @description Creates a debounced or throttled version of a function.
+ * - `debounce`: runs once calls stop for `wait` (trailing by default).
+ * - `throttle`: runs at most once per `wait` (leading and trailing by default).
+ * Only the most recent arguments are kept for the trailing call.
+ * @param {(...args: TArgs) => void} fn - The function to schedule.
+ * @param {"debounce" | "throttle"} mode - How calls are spread out.
+ * @param {ScheduleOptions} options - The delay and edge options.
+ * @returns {ScheduledFn<TArgs>} - The scheduled function.
+ */
+export function createScheduledFn<TArgs extends unknown[]>(
+  fn: (...args: TArgs) => void,
+  mode: "debounce" | "throttle",
+  options: ScheduleOptions
+): ScheduledFn<TArgs> {
+  const {
+    wait,
+    leading = mode === "throttle",
+    trailing = true,
+  } = typeof options === "number" ? { wait: options } : options;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingArgs: TArgs | undefined;
+
+  const invokePending = () => {
+    const args = pendingArgs;
+    pendingArgs = undefined;
+    if (args) fn(...args);
+  };
+
+  const onTimeout = () => {
+    timer = undefined;
+    if (!trailing || !pendingArgs) return;
+
+    invokePending();
+    // A throttled trailing call starts a new interval, so the rate holds.
+    if (mode === "throttle") timer = setTimeout(onTimeout, wait);
+  };
+
+  return {
+    call: (...args) => {
+      const isBurstStart = timer === undefined;
+
+      if (isBurstStart && leading) {
+        pendingArgs = undefined;
+        fn(...args);
+      } else {
+        pendingArgs = args;
+      }
+
+      if (mode === "debounce") {
+        clearTimeout(timer);
+        timer = setTimeout(onTimeout, wait);
+      } else if (isBurstStart) {
+        timer = setTimeout(onTimeout, wait);
+      }
+    },
+    flush: () => {
+      clearTimeout(timer);
+      timer = undefined;
+      invokePending();
+    },
+    cancel: () => {
+      clearTimeout(timer);
+      timer = undefined;
+      pendingArgs = undefined;
+    },
+  };
+}
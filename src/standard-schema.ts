@@ -0,0 +1,120 @@
+import type { z } from "zod";
+import type { ValidationIssue } from "./validation-errors";
+
+/**
+ * @description The Standard Schema interface (https://standardschema.dev), implemented by Zod,
+ * Valibot, ArkType and others. Copied from the spec, as it recommends, so no library is required
+ * to use it.
+ * @template Input - The input type of the schema.
+ * @template Output - The output type of the schema.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+/**
+ * @description The type a Standard Schema accepts.
+ */
+export type InferSchemaInput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["input"];
+
+/**
+ * @description The type a Standard Schema produces once validation succeeds.
+ */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["output"];
+
+/**
+ * @description Whether a schema is a Zod schema, whose definition can be inspected and which
+ * accepts per-parse options.
+ */
+export function isZodSchema(schema: unknown): schema is z.core.$ZodType {
+  return typeof schema === "object" && schema !== null && "_zod" in schema;
+}
+
+/**
+ * @description Validates a value with any Standard Schema. Issues are normalized to plain
+ * property-key paths, whichever library reported them.
+ * @param {TSchema} schema - The schema to validate with.
+ * @param {unknown} value - The value to validate.
+ * @param {{ zodErrorMap?: z.core.$ZodErrorMap }} [options={}] - An error map for the messages of Zod schemas, e.g. for the locale of the request.
+ * @returns {Promise<{ success: true; data: InferSchemaOutput<TSchema> } | { success: false; issues: ValidationIssue[] }>} - The validation result.
+ */
+export async function validateSchema<TSchema extends StandardSchemaV1>(
+  schema: TSchema,
+  value: unknown,
+  options: { zodErrorMap?: z.core.$ZodErrorMap } = {}
+): Promise<
+  | { success: true; data: InferSchemaOutput<TSchema> }
+  | { success: false; issues: ValidationIssue[] }
+> {
+  if (options.zodErrorMap && isZodSchema(schema)) {
+    // Messages set on the schema itself still take precedence over the error map.
+    const result = await (schema as unknown as z.ZodType).safeParseAsync(value, {
+      error: options.zodErrorMap,
+    });
+    return result.success
+      ? { success: true, data: result.data as InferSchemaOutput<TSchema> }
+      : {
+          success: false,
+          issues: result.error.issues.map(({ message, path }) => ({
+            message,
+            path,
+          })),
+        };
+  }
+
+  const result = await schema["~standard"].validate(value);
+
+  if (result.issues) {
+    return {
+      success: false,
+      issues: result.issues.map((issue) => ({
+        message: issue.message,
+        path: issue.path?.map((segment) =>
+          typeof segment === "object" ? segment.key : segment
+        ),
+      })),
+    };
+  }
+
+  return { success: true, data: result.value as InferSchemaOutput<TSchema> };
+}
@@ -0,0 +1,25 @@
+import type { ActionErrorProps } from "./action-client";
+import type { Revalidated } from "./revalidation";
+
+/**
+ * @description An event sent over the stream returned by a streaming action.
+ * The stream always ends with a single `final` or `error` event.
+ * @template TChunk - The type of the values yielded by the handler.
+ * @template TFinal - The type of the value returned by the handler.
+ * @template TError - The type of the errors the action can return.
+ */
+export type StreamEvent<TChunk, TFinal, TError = ActionErrorProps> =
+  | { type: "chunk"; chunk: TChunk }
+  | { type: "progress"; progress: number }
+  | { type: "final"; data: TFinal; revalidated?: Revalidated }
+  | { type: "error"; error: TError };
+
+/**
+ * @description Passed to streaming handlers as their third argument.
+ * @property {(value: number) => void} progress - Reports progress (e.g. between 0 and 1) without yielding a chunk.
+ * @property {AbortSignal} signal - Aborted when the client cancels the stream.
+ */
+export type StreamHelpers = {
+  progress: (value: number) => void;
+  signal: AbortSignal;
+};
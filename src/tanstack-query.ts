@@ -0,0 +1,287 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type QueryKey,
+  type UseMutationOptions,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import type { ActionResult } from "./action-client";
+import { getActionDefinition } from "./action-definition";
+import { toUnexpectedError } from "./unexpected-error";
+import type {
+  ActionInput,
+  ExtractData,
+  ExtractError,
+  UnexpectedErrorProps,
+} from "./use-action";
+
+type AnyAction = (payload: any) => Promise<ActionResult<any>>;
+type ActionError<TAction extends AnyAction> =
+  | ExtractError<Awaited<ReturnType<TAction>>>
+  | UnexpectedErrorProps;
+type ActionData<TAction extends AnyAction> = ExtractData<
+  Awaited<ReturnType<TAction>>
+>;
+
+/** The first element of every generated query key, so action queries can be invalidated together. */
+export const ACTION_QUERY_KEY_PREFIX = "better-next-actions";
+
+/**
+ * @description Resolves the name used in query keys: the explicit name, or the action's
+ * `metadata.name` (available on the server and in tests). Function names are never used: on the
+ * client, every server action is a reference React creates, and they all share the same name.
+ * @throws {TypeError} If the action is not a string and has no readable `metadata.name`.
+ */
+function getActionName(action: AnyAction | string): string {
+  if (typeof action === "string") return action;
+
+  const metadata = getActionDefinition(action)?.metadata as
+    | { name?: unknown }
+    | undefined;
+  if (typeof metadata?.name === "string" && metadata.name) return metadata.name;
+
+  throw new TypeError(
+    "Cannot build a query key for an action without a name. Pass `name` (or the name itself " +
+      "to actionQueryKey); `metadata.name` is only readable on the server."
+  );
+}
+
+/**
+ * @description Builds the query key for an action and its input: `["better-next-actions", name, input]`.
+ * Pass only the action (or its name) to get a prefix that matches every input. On the client, pass
+ * the name: actions only carry their `metadata.name` on the server.
+ * @param {TAction | string} action - The action, or the name it is keyed by.
+ * @param {unknown} [input] - The action input.
+ * @returns {QueryKey} - The query key.
+ * @throws {TypeError} If an action is passed that has no readable `metadata.name`.
+ */
+export function actionQueryKey<TAction extends AnyAction>(
+  action: TAction | string,
+  ...input: [] | [ActionInput<TAction>]
+): QueryKey {
+  return [ACTION_QUERY_KEY_PREFIX, getActionName(action), ...input];
+}
+
+/**
+ * @description Calls an action and converts its result to the throw-based contract TanStack Query
+ * expects. The thrown value is the action's typed error props (narrowable on `code`), and failures
+ * to call the action at all are thrown as `UNEXPECTED_ERROR`, as in `useAction`.
+ * @param {TAction} action - The action to call.
+ * @param {ActionInput<TAction>} input - The action input.
+ * @returns {Promise<ActionData<TAction>>} - The data returned by the action.
+ * @throws {ActionError<TAction>} The error returned by the action.
+ */
+export async function unwrapAction<TAction extends AnyAction>(
+  action: TAction,
+  input: ActionInput<TAction>
+): Promise<ActionData<TAction>> {
+  let result: ActionResult<ActionData<TAction>>;
+  try {
+    result = await action(input);
+  } catch (e: unknown) {
+    throw toUnexpectedError(e);
+  }
+
+  if (result.error) throw result.error;
+  return result.data;
+}
+
+/**
+ * @description Builds `queryKey` and `queryFn` for an action, for `useQuery`, `prefetchQuery` or
+ * `fetchQuery`.
+ * @param {TAction} action - The action to query.
+ * @param {ActionInput<TAction>} input - The action input.
+ * @param {{ name?: string }} [options] - The name used in the query key. Required unless the action's `metadata.name` is readable, i.e. on the server.
+ * @returns {{ queryKey: QueryKey; queryFn: () => Promise<ActionData<TAction>> }} - The query options.
+ */
+export function actionQueryOptions<TAction extends AnyAction>(
+  action: TAction,
+  input: ActionInput<TAction>,
+  options: { name?: string } = {}
+) {
+  return {
+    queryKey: actionQueryKey<TAction>(options.name ?? action, input),
+    queryFn: () => unwrapAction(action, input),
+  };
+}
+
+/**
+ * @description Options for `useQueryAction`.
+ * @template TAction - The type of the action.
+ * @template TSelected - The type returned by `select`.
+ */
+export type UseQueryActionOptions<
+  TAction extends AnyAction,
+  TSelected = ActionData<TAction>
+> = Omit<
+  UseQueryOptions<ActionData<TAction>, ActionError<TAction>, TSelected, QueryKey>,
+  "queryKey" | "queryFn"
+> & {
+  /** The name used in the query key. Required on the client, where the action's `metadata.name` cannot be read. */
+  name?: string;
+  /** Overrides the generated query key. */
+  queryKey?: QueryKey;
+};
+
+/**
+ * @description A `useQuery` wrapper for read actions. The query key is generated from the action
+ * name and input, and `error` is the action's typed error.
+ * @template TAction - The type of the action.
+ * @template TSelected - The type returned by `select`.
+ * @param {TAction} action - The action to query.
+ * @param {ActionInput<TAction>} input - The action input.
+ * @param {UseQueryActionOptions<TAction, TSelected>} [options={}] - `useQuery` options.
+ * @returns {UseQueryResult<TSelected, ActionError<TAction>>} - The query result.
+ */
+export function useQueryAction<
+  TAction extends AnyAction,
+  TSelected = ActionData<TAction>
+>(
+  action: TAction,
+  input: ActionInput<TAction>,
+  options: UseQueryActionOptions<TAction, TSelected> = {}
+) {
+  const { name, queryKey, ...queryOptions } = options;
+  const generated = actionQueryOptions(action, input, { name });
+
+  return useQuery<ActionData<TAction>, ActionError<TAction>, TSelected, QueryKey>({
+    ...queryOptions,
+    queryKey: queryKey ?? generated.queryKey,
+    queryFn: generated.queryFn,
+  });
+}
+
+/**
+ * @description An optimistic cache update applied while a mutation is in flight. The previous
+ * cache entry is restored if the mutation fails, and the query is invalidated once it settles.
+ * @template TInput - The input type of the action.
+ * @template TCache - The type of the cached query data.
+ */
+export type OptimisticUpdate<TInput, TCache> = {
+  /** The query to update, or a function computing it from the mutation input. */
+  queryKey: QueryKey | ((input: TInput) => QueryKey);
+  /** Computes the optimistic cache entry from the current one. */
+  updater: (current: TCache | undefined, input: TInput) => TCache;
+};
+
+/**
+ * @description Options for `useActionMutation`.
+ * @template TAction - The type of the action.
+ * @template TOnMutateResult - The value returned by `onMutate`.
+ * @template TCache - The type of the optimistically updated query data.
+ */
+export type UseActionMutationOptions<
+  TAction extends AnyAction,
+  TOnMutateResult = unknown,
+  TCache = unknown
+> = Omit<
+  UseMutationOptions<
+    ActionData<TAction>,
+    ActionError<TAction>,
+    ActionInput<TAction>,
+    TOnMutateResult
+  >,
+  "mutationFn"
+> & {
+  /** Queries invalidated after a successful mutation, as keys or computed from the data and input. */
+  invalidateKeys?:
+    | QueryKey[]
+    | ((data: ActionData<TAction>, input: ActionInput<TAction>) => QueryKey[]);
+  /** Updates a cached query optimistically while the mutation is in flight. */
+  optimistic?: OptimisticUpdate<ActionInput<TAction>, TCache>;
+};
+
+/**
+ * @description The context `useActionMutation` keeps between `onMutate` and the other callbacks.
+ * The caller's own `onMutate` result is unwrapped before it reaches their callbacks.
+ */
+type MutationContext<TOnMutateResult> = {
+  optimistic?: { queryKey: QueryKey; previous: unknown };
+  result: TOnMutateResult;
+};
+
+/**
+ * @description A `useMutation` wrapper for actions. It invalidates `invalidateKeys` after a successful
+ * mutation, applies and rolls back `optimistic` cache updates, and types `error` as the action's error.
+ * @template TAction - The type of the action.
+ * @template TOnMutateResult - The value returned by `onMutate`.
+ * @template TCache - The type of the optimistically updated query data.
+ * @param {TAction} action - The action to mutate with.
+ * @param {UseActionMutationOptions<TAction, TOnMutateResult, TCache>} [options={}] - `useMutation` options.
+ * @returns {UseMutationResult<ActionData<TAction>, ActionError<TAction>, ActionInput<TAction>, TOnMutateResult>} - The mutation result.
+ */
+export function useActionMutation<
+  TAction extends AnyAction,
+  TOnMutateResult = unknown,
+  TCache = unknown
+>(
+  action: TAction,
+  options: UseActionMutationOptions<TAction, TOnMutateResult, TCache> = {}
+) {
+  const queryClient = useQueryClient();
+  const {
+    invalidateKeys,
+    optimistic,
+    onMutate,
+    onSuccess,
+    onError,
+    onSettled,
+    ...mutationOptions
+  } = options;
+
+  type Input = ActionInput<TAction>;
+  type Context = MutationContext<TOnMutateResult>;
+  // The callbacks are forwarded with any extra arguments of the installed TanStack Query version.
+  type Rest = any[];
+
+  return useMutation<ActionData<TAction>, ActionError<TAction>, Input, Context>({
+    ...mutationOptions,
+    mutationFn: (input) => unwrapAction(action, input),
+    onMutate: async (input, ...rest: Rest) => {
+      let snapshot: Context["optimistic"];
+
+      if (optimistic) {
+        const queryKey =
+          typeof optimistic.queryKey === "function"
+            ? optimistic.queryKey(input)
+            : optimistic.queryKey;
+        // Stops in-flight fetches from overwriting the optimistic entry.
+        await queryClient.cancelQueries({ queryKey });
+        const previous = queryClient.getQueryData<TCache>(queryKey);
+        queryClient.setQueryData<TCache>(queryKey, optimistic.updater(previous, input));
+        snapshot = { queryKey, previous };
+      }
+
+      const result = (await (onMutate as any)?.(input, ...rest)) as TOnMutateResult;
+      return { optimistic: snapshot, result };
+    },
+    onSuccess: async (data, input, context, ...rest: Rest) => {
+      const keys =
+        typeof invalidateKeys === "function"
+          ? invalidateKeys(data, input)
+          : invalidateKeys ?? [];
+      await Promise.all(
+        keys.map((queryKey) => queryClient.invalidateQueries({ queryKey }))
+      );
+      return (onSuccess as any)?.(data, input, context?.result, ...rest);
+    },
+    onError: (error, input, context, ...rest: Rest) => {
+      if (context?.optimistic) {
+        queryClient.setQueryData(
+          context.optimistic.queryKey,
+          context.optimistic.previous
+        );
+      }
+      return (onError as any)?.(error, input, context?.result, ...rest);
+    },
+    onSettled: async (data, error, input, context, ...rest: Rest) => {
+      if (context?.optimistic) {
+        await queryClient.invalidateQueries({
+          queryKey: context.optimistic.queryKey,
+        });
+      }
+      return (onSettled as any)?.(data, error, input, context?.result, ...rest);
+    },
+  });
+}
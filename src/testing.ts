@@ -0,0 +1,121 @@
+import type { ActionCallOptions, MiddlewareFn } from "./action-client";
+import { getActionDefinition } from "./action-definition";
+
+/**
+ * @description Options for a single test invocation.
+ * @property {Record<string, unknown>} [ctx] - Context merged over whatever the middleware chain produces,
+ * so handlers see it even when the middleware that normally provides it is skipped.
+ * @property {Record<string, false | MiddlewareFn<any, any, any, any>>} [middleware] - Middleware to skip (`false`)
+ * or replace, keyed by the name given to `.use()` or `.middleware()` (or `middleware#<index>` for unnamed middleware).
+ * @property {unknown[]} [bindArgs] - Arguments validated against `.bindArgs()`, as if bound with `.bind()`.
+ * @property {string} [idempotencyKey] - The idempotency key to send, for actions declared with `.idempotent()`.
+ */
+export type CallActionOptions = {
+  ctx?: Record<string, unknown>;
+  middleware?: Record<string, false | MiddlewareFn<any, any, any, any>>;
+  bindArgs?: unknown[];
+  idempotencyKey?: string;
+};
+
+/**
+ * @description The outcome of a test invocation. Next.js control-flow errors are captured
+ * instead of thrown, so they can be asserted on.
+ * @template TResult - The result type of the action.
+ */
+export type CallActionResult<TResult> =
+  | { type: "result"; result: TResult }
+  | {
+      type: "redirect";
+      url: string;
+      redirectType: "push" | "replace";
+      status: number;
+    }
+  | { type: "notFound" }
+  | { type: "httpError"; status: number };
+
+/**
+ * @description The payload of a regular action (the argument after any bound ones, before the
+ * call options), or the `FormData` (or already decoded object) for a form action. Bound arguments
+ * are passed with `options.bindArgs`.
+ */
+type CallActionInput<TAction extends (...args: any[]) => any> =
+  Parameters<TAction> extends [...any[], any, FormData]
+    ? FormData | Record<string, unknown>
+    : Required<Parameters<TAction>> extends [...any[], infer TPayload, ActionCallOptions]
+    ? TPayload
+    : Parameters<TAction> extends [...any[], infer TPayload]
+    ? TPayload
+    : never;
+
+/**
+ * @description Parses the digest of an error thrown by `redirect()`, `notFound()`, `forbidden()` or `unauthorized()`.
+ * @param {unknown} error - The thrown error.
+ * @returns {CallActionResult<never> | undefined} - The captured outcome, or `undefined` for other errors.
+ */
+function captureNextJsError(error: unknown): CallActionResult<never> | undefined {
+  if (typeof error !== "object" || error === null || !("digest" in error)) {
+    return undefined;
+  }
+
+  const digest = (error as { digest?: unknown }).digest;
+  if (typeof digest !== "string") return undefined;
+
+  // Format: NEXT_REDIRECT;<push|replace>;<url>;<status>;
+  if (digest.startsWith("NEXT_REDIRECT;")) {
+    const [, redirectType, ...rest] = digest.split(";");
+    const status = Number(rest.at(-2));
+    return {
+      type: "redirect",
+      url: rest.slice(0, -2).join(";"),
+      redirectType: redirectType === "push" ? "push" : "replace",
+      status: Number.isNaN(status) ? 307 : status,
+    };
+  }
+
+  if (digest === "NEXT_NOT_FOUND") return { type: "notFound" };
+
+  // Format: NEXT_HTTP_ERROR_FALLBACK;<status>
+  if (digest.startsWith("NEXT_HTTP_ERROR_FALLBACK;")) {
+    const status = Number(digest.split(";")[1]);
+    return status === 404 ? { type: "notFound" } : { type: "httpError", status };
+  }
+
+  return undefined;
+}
+
+/**
+ * @description Invokes an action outside the Next.js runtime. Context can be injected and middleware
+ * skipped or replaced, and `redirect()`/`notFound()` are returned as results instead of thrown.
+ * Input validation, output validation and error handling run exactly as in production.
+ * @template TAction - The action created with `ActionBuilder.action` or `ActionBuilder.formAction`.
+ * @param {TAction} action - The action to invoke.
+ * @param {CallActionInput<TAction>} input - The payload, or `FormData` for form actions.
+ * @param {CallActionOptions} [options] - Context and middleware overrides, bound arguments and the idempotency key.
+ * @returns {Promise<CallActionResult<Awaited<ReturnType<TAction>>>>} - The captured outcome.
+ * @throws {TypeError} If the function was not created with `ActionBuilder`.
+ */
+export async function callAction<TAction extends (...args: any[]) => Promise<any>>(
+  action: TAction,
+  input: CallActionInput<TAction>,
+  options: CallActionOptions = {}
+): Promise<CallActionResult<Awaited<ReturnType<TAction>>>> {
+  const definition = getActionDefinition(action);
+  if (!definition) {
+    throw new TypeError(
+      "callAction expects an action created with ActionBuilder.action or ActionBuilder.formAction."
+    );
+  }
+
+  try {
+    const { bindArgs, idempotencyKey, ...overrides } = options;
+    const result = await definition.run(input, overrides, {
+      bindArgs,
+      idempotencyKey,
+    });
+    return { type: "result", result: result as Awaited<ReturnType<TAction>> };
+  } catch (error) {
+    const captured = captureNextJsError(error);
+    if (captured) return captured;
+    throw error;
+  }
+}
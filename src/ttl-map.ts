@@ -0,0 +1,54 @@
+const SWEEP_INTERVAL = 60_000;
+
+/**
+ * @class TtlMap
+ * @description A map whose entries expire. Expired entries are never returned, and are dropped
+ * at most once a minute, so the map does not grow forever. Backs the in-memory stores.
+ * @template TValue - The type of the stored values.
+ */
+export class TtlMap<TValue> {
+  private entries = new Map<string, { value: TValue; expiresAt: number }>();
+  private lastSweep = Date.now();
+
+  /**
+   * @description Returns the value stored under a key, unless it has expired.
+   * @param {string} key - The key.
+   * @param {number} [now=Date.now()] - The current time, in milliseconds.
+   * @returns {TValue | undefined} - The value, or undefined if there is none.
+   */
+  public get(key: string, now: number = Date.now()): TValue | undefined {
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > now ? entry.value : undefined;
+  }
+
+  /**
+   * @description Stores a value until `expiresAt`.
+   * @param {string} key - The key.
+   * @param {TValue} value - The value.
+   * @param {number} expiresAt - When the value expires, in milliseconds since the epoch.
+   * @returns {void}
+   */
+  public set(key: string, value: TValue, expiresAt: number): void {
+    this.entries.set(key, { value, expiresAt });
+  }
+
+  /**
+   * @description Removes the value stored under a key.
+   * @param {string} key - The key.
+   * @returns {void}
+   */
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL) return;
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { UnexpectedErrorProps } from "./use-action";
+
+type UnexpectedErrorMessage = string | ((error: unknown) => string);
+
+// Kept on `globalThis`, so the setting is shared by every entry point that bundles this module.
+const MESSAGE_KEY = Symbol.for("better-next-actions.unexpectedErrorMessage");
+
+const DEFAULT_MESSAGE = "An unexpected error occurred.";
+
+/**
+ * @description Sets the message of the `UNEXPECTED_ERROR`s the hooks report when an action cannot
+ * be called at all (e.g. the network is down), so it can be localized. By default the message of the
+ * thrown error is used.
+ * @param {string | ((error: unknown) => string) | undefined} message - The message, or a function computing it from the thrown error. Pass undefined to restore the default.
+ * @returns {void}
+ */
+export function setUnexpectedErrorMessage(
+  message: UnexpectedErrorMessage | undefined
+): void {
+  (globalThis as { [MESSAGE_KEY]?: UnexpectedErrorMessage })[MESSAGE_KEY] = message;
+}
+
+/**
+ * @description Converts an error thrown while calling an action into an `UNEXPECTED_ERROR`.
+ * @param {unknown} error - The thrown error.
+ * @returns {UnexpectedErrorProps} - The error reported by the hooks.
+ */
+export function toUnexpectedError(error: unknown): UnexpectedErrorProps {
+  const message = (globalThis as { [MESSAGE_KEY]?: UnexpectedErrorMessage })[
+    MESSAGE_KEY
+  ];
+
+  return {
+    code: "UNEXPECTED_ERROR",
+    message:
+      typeof message === "function"
+        ? message(error)
+        : message ?? ((error as Error)?.message || DEFAULT_MESSAGE),
+  };
+}
@@ -0,0 +1,317 @@
+import {
+  startTransition,
+  useActionState,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type FocusEvent,
+  type FormEvent,
+} from "react";
+import type { z, ZodType } from "zod";
+import type { ActionErrorProps, ActionResult } from "./action-client";
+import { decodeFormData, parseFieldName } from "./form-data";
+import type { ExtractData, ExtractError } from "./use-action";
+import {
+  buildValidationErrors,
+  type FieldErrors,
+  type ValidationIssue,
+} from "./validation-errors";
+
+/**
+ * @description The dotted names of every field in the input, e.g. `"address.city"` or `"items.0.name"`.
+ * @template TInput - The input type of the form.
+ */
+export type FieldPath<TInput> = NonNullable<TInput> extends Date | Blob
+  ? never
+  : NonNullable<TInput> extends readonly (infer TItem)[]
+  ? `${number}` | `${number}.${FieldPath<TItem>}`
+  : NonNullable<TInput> extends object
+  ? {
+      [K in keyof NonNullable<TInput> & string]:
+        | K
+        | `${K}.${FieldPath<NonNullable<TInput>[K]>}`;
+    }[keyof NonNullable<TInput> & string]
+  : never;
+
+/**
+ * @description A deeply optional version of the input, used for default values.
+ */
+type DeepPartial<T> = T extends Date | Blob
+  ? T
+  : T extends readonly (infer TItem)[]
+  ? DeepPartial<TItem>[]
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+/**
+ * @description The input type of the form: the schema input if a schema is passed.
+ */
+type FormInput<TSchema> = TSchema extends ZodType
+  ? z.input<TSchema>
+  : Record<string, unknown>;
+
+/**
+ * @description Options for the `useActionForm` hook.
+ * @template TSchema - The Zod schema used for client-side validation, usually the action's `.input()` schema.
+ * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
+ */
+export type UseActionFormOptions<TSchema, TData, TError> = {
+  /** Validates the form on the client before it is submitted. */
+  schema?: TSchema;
+  /** The initial values of registered fields. */
+  defaultValues?: DeepPartial<FormInput<TSchema>>;
+  /** When fields are validated on the client, besides on submit. Defaults to `"submit"`. */
+  validateOn?: "submit" | "blur" | "change";
+  /** Callback fired when a submission succeeds. */
+  onSuccess?: (result: { data: TData }) => void;
+  /** Callback fired when a submission fails on the server. */
+  onError?: (result: { error: TError }) => void;
+};
+
+/**
+ * @description The props `register` spreads onto an input.
+ */
+export type RegisteredField = {
+  name: string;
+  defaultValue?: string;
+  defaultChecked?: boolean;
+  value?: string;
+  "aria-invalid"?: boolean;
+  onChange: (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
+  onBlur: (event: FocusEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
+};
+
+/**
+ * @description Reads the value at a dotted or bracketed field name.
+ */
+function getAtPath(source: unknown, name: string): unknown {
+  let node = source;
+  for (const segment of parseFieldName(name)) {
+    if (
+      typeof node !== "object" ||
+      node === null ||
+      !Object.hasOwn(node, segment)
+    ) {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[segment];
+  }
+  return node;
+}
+
+/**
+ * @description A hook that wires a form to an action created with `ActionBuilder.formAction`.
+ * It registers uncontrolled inputs, validates them on the client with the action's input schema,
+ * tracks dirty and touched fields, and maps server `fieldErrors` back onto them. The form keeps
+ * the action as its native `action`, so it still submits before JavaScript has loaded.
+ * @template TAction - The form action.
+ * @template TSchema - The Zod schema used for client-side validation.
+ * @template TInput - The input type of the form.
+ * @template TData - The data type returned by the action.
+ * @template TError - The error type returned by the action, narrowable on `code`.
+ * @param {TAction} action - The form action to submit through.
+ * @param {UseActionFormOptions<TSchema, TData, TError>} [options={}] - The schema, default values and callbacks.
+ * @returns {{
+ *   formProps: { ref: RefObject<HTMLFormElement | null>; action: (formData: FormData) => void; onSubmit: (event: FormEvent<HTMLFormElement>) => void };
+ *   register: (name: FieldPath<TInput>, options?: { type?: "checkbox" | "radio"; value?: string }) => RegisteredField;
+ *   getError: (name: FieldPath<TInput>) => string | undefined;
+ *   fieldErrors: FieldErrors<TInput> | null;
+ *   formErrors: string[];
+ *   error: TError | null;
+ *   data: TData | null;
+ *   touched: Partial<Record<FieldPath<TInput>, boolean>>;
+ *   dirty: Partial<Record<FieldPath<TInput>, boolean>>;
+ *   isDirty: boolean;
+ *   isSubmitting: boolean;
+ *   reset: () => void;
+ * }}
+ */
+export function useActionForm<
+  TAction extends (
+    prevState: any,
+    formData: FormData
+  ) => Promise<ActionResult<any>>,
+  TSchema extends ZodType | undefined = undefined,
+  TInput = FormInput<TSchema>,
+  TData = ExtractData<Awaited<ReturnType<TAction>>>,
+  TError = ExtractError<Awaited<ReturnType<TAction>>>
+>(
+  action: TAction,
+  options: UseActionFormOptions<TSchema, TData, TError> = {}
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [result, formAction, isPending] = useActionState<
+    ActionResult<unknown> | null,
+    FormData
+  >(action, null);
+
+  const formRef = useRef<HTMLFormElement>(null);
+  const touchedRef = useRef(new Set<string>());
+  const submittedRef = useRef(false);
+
+  const [clientErrors, setClientErrors] = useState<{
+    formErrors: string[];
+    fieldErrors: FieldErrors<TInput>;
+  } | null>(null);
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [dirty, setDirty] = useState<Record<string, boolean>>({});
+  // Hidden after `reset()` until the next submission.
+  const [shownResult, setShownResult] = useState(result);
+
+  /**
+   * Validates the current form values. Before the first submit, only touched fields show errors.
+   */
+  const validate = useCallback((formData: FormData): boolean => {
+    const schema = optionsRef.current.schema;
+    if (!schema) return true;
+
+    const parsed = schema.safeParse(decodeFormData(formData, schema));
+    const issues: ValidationIssue[] = parsed.success
+      ? []
+      : parsed.error.issues.filter(
+          (issue) =>
+            submittedRef.current ||
+            touchedRef.current.has(issue.path.join("."))
+        );
+
+    setClientErrors(
+      issues.length > 0 ? buildValidationErrors<TInput>(issues) : null
+    );
+    return parsed.success;
+  }, []);
+
+  const onSubmit = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      // Stops React from running the form action, so it can be validated first.
+      event.preventDefault();
+      submittedRef.current = true;
+
+      const submitter = (event.nativeEvent as SubmitEvent).submitter;
+      const formData = new FormData(event.currentTarget, submitter);
+      if (!validate(formData)) return;
+
+      startTransition(() => formAction(formData));
+    },
+    [formAction, validate]
+  );
+
+  const lastResultRef = useRef(result);
+  useEffect(() => {
+    if (result === lastResultRef.current) return;
+    lastResultRef.current = result;
+    setShownResult(result);
+
+    if (!result) return;
+    if (result.error) {
+      optionsRef.current.onError?.({ error: result.error as TError });
+    } else {
+      optionsRef.current.onSuccess?.({ data: result.data as TData });
+    }
+  }, [result]);
+
+  const serverError = (shownResult?.error ?? null) as ActionErrorProps<TInput> | null;
+  const fieldErrors =
+    clientErrors?.fieldErrors ?? serverError?.fieldErrors ?? null;
+  const formErrors = clientErrors?.formErrors ?? serverError?.formErrors ?? [];
+
+  const getError = useCallback(
+    (name: FieldPath<TInput>): string | undefined =>
+      (getAtPath(fieldErrors, name) as { _errors?: string[] } | undefined)
+        ?._errors?.[0],
+    [fieldErrors]
+  );
+
+  const register = useCallback(
+    (
+      name: FieldPath<TInput>,
+      fieldOptions: { type?: "checkbox" | "radio"; value?: string } = {}
+    ): RegisteredField => {
+      const defaultValue = getAtPath(optionsRef.current.defaultValues, name);
+
+      const isDefault = (
+        target: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+      ) => {
+        if (fieldOptions.type === "checkbox") {
+          return (target as HTMLInputElement).checked === Boolean(defaultValue);
+        }
+        if (fieldOptions.type === "radio") {
+          return target.value === String(defaultValue);
+        }
+        return target.value === String(defaultValue ?? "");
+      };
+
+      const validateField = (trigger: "blur" | "change") => {
+        const validateOn = optionsRef.current.validateOn ?? "submit";
+        if (formRef.current && (validateOn === trigger || submittedRef.current)) {
+          validate(new FormData(formRef.current));
+        }
+      };
+
+      return {
+        name,
+        ...(fieldOptions.type === "checkbox"
+          ? { defaultChecked: Boolean(defaultValue) }
+          : fieldOptions.type === "radio"
+          ? {
+              value: fieldOptions.value,
+              defaultChecked: String(defaultValue) === fieldOptions.value,
+            }
+          : {
+              defaultValue:
+                defaultValue === undefined || defaultValue === null
+                  ? undefined
+                  : String(defaultValue),
+            }),
+        "aria-invalid": getError(name) ? true : undefined,
+        onChange: (event) => {
+          const isDirty = !isDefault(event.currentTarget);
+          setDirty((prev) =>
+            prev[name] === isDirty ? prev : { ...prev, [name]: isDirty }
+          );
+          validateField("change");
+        },
+        onBlur: () => {
+          if (!touchedRef.current.has(name)) {
+            touchedRef.current.add(name);
+            setTouched((prev) => ({ ...prev, [name]: true }));
+          }
+          validateField("blur");
+        },
+      };
+    },
+    [getError, validate]
+  );
+
+  const reset = useCallback(() => {
+    formRef.current?.reset();
+    touchedRef.current = new Set();
+    submittedRef.current = false;
+    setClientErrors(null);
+    setTouched({});
+    setDirty({});
+    setShownResult(null);
+  }, []);
+
+  return {
+    formProps: { ref: formRef, action: formAction, onSubmit },
+    register,
+    getError,
+    fieldErrors,
+    formErrors,
+    error: (shownResult?.error ?? null) as TError | null,
+    data: (shownResult && !shownResult.error
+      ? shownResult.data
+      : null) as TData | null,
+    touched: touched as Partial<Record<FieldPath<TInput>, boolean>>,
+    dirty: dirty as Partial<Record<FieldPath<TInput>, boolean>>,
+    isDirty: Object.values(dirty).some(Boolean),
+    isSubmitting: isPending,
+    reset,
+  };
+}
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import type { ActionErrorProps, ActionResult } from "./action-client";
+import {
+  fetchQueryEntry,
+  getQueryEntry,
+  invalidateActionQuery,
+  isQueryStale,
+  serializeQueryInput,
+  setActionQueryData,
+  subscribeQueryEntry,
+} from "./query-cache";
+import type {
+  ActionInput,
+  ExtractData,
+  ExtractError,
+  UnexpectedErrorProps,
+  UseActionState,
+} from "./use-action";
+
+/**
+ * @description Options for the `useActionQuery` hook.
+ * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
+ */
+export type UseActionQueryOptions<TData, TError = ActionErrorProps> = {
+  /** Set to false to stop fetching, e.g. until the input is ready. Defaults to true. */
+  enabled?: boolean;
+  /** How long a result stays fresh, in milliseconds. Stale results are shown while they are refetched. Defaults to 0. */
+  staleTime?: number;
+  /** Refetches stale results when the window regains focus. Defaults to true. */
+  refetchOnWindowFocus?: boolean;
+  /** Seeds the cache entry of the first input the hook renders with, if it has none yet, e.g. with data rendered on the server. Other inputs are fetched. */
+  initial?: TData;
+  /** Callback fired when a fetch made while the hook is mounted succeeds. */
+  onSuccess?: (state: UseActionState<TData, TError> & { data: TData }) => void;
+  /** Callback fired when a fetch made while the hook is mounted fails. */
+  onError?: (state: UseActionState<TData, TError> & { error: TError }) => void;
+  /** Callback fired when a fetch made while the hook is mounted settles, regardless of outcome. */
+  onSettled?: (state: UseActionState<TData, TError>) => void;
+};
+
+/**
+ * @description A hook for read actions. It executes the action on mount and whenever the input changes,
+ * and caches the result in memory by action and input. Components using the same action and input share
+ * one cache entry and one request. Cached results are returned immediately; stale ones are refetched in
+ * the background (on mount, on window focus, or when invalidated) while the old data stays visible.
+ * @template TAction - The type of the server action.
+ * @template TInput - The input type of the action.
+ * @template TData - The data type returned by the action.
+ * @template TError - The error type returned by the action, narrowable on `code`.
+ * @param {TAction} action - The server action to query.
+ * @param {TInput} input - The action input. Inputs are compared by value.
+ * @param {UseActionQueryOptions<TData, TError>} [options={}] - Options for the hook.
+ * @returns {{
+ *   status: ActionStatus;
+ *   hasSucceeded: boolean;
+ *   hasErrored: boolean;
+ *   isError: boolean;
+ *   error: TError | null;
+ *   data: TData | null;
+ *   revalidated: Revalidated | null;
+ *   input: TInput | null;
+ *   executedAt: number | null;
+ *   settledAt: number | null;
+ *   attempt: number;
+ *   isLoading: boolean;
+ *   isFetching: boolean;
+ *   refetch: () => Promise<void>;
+ *   invalidate: () => Promise<void>;
+ *   setData: (data: TData | ((current: TData | null) => TData)) => void;
+ * }}
+ */
+export function useActionQuery<
+  TAction extends (payload: any) => Promise<ActionResult<any>>,
+  TInput = ActionInput<TAction>,
+  TData = ExtractData<Awaited<ReturnType<TAction>>>,
+  TError = ExtractError<Awaited<ReturnType<TAction>>> | UnexpectedErrorProps
+>(
+  action: TAction,
+  input: TInput,
+  options: UseActionQueryOptions<TData, TError> = {}
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const {
+    enabled = true,
+    staleTime = 0,
+    refetchOnWindowFocus = true,
+  } = options;
+
+  // `initial` belongs to the input of the first render, so later inputs are never seeded with it.
+  const inputKey = serializeQueryInput(input);
+  const initialKeyRef = useRef(inputKey);
+
+  // Looked up on every render, but only created once per action and input (on the client).
+  const entry = getQueryEntry(
+    action,
+    input,
+    inputKey === initialKeyRef.current ? options.initial : undefined
+  );
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQueryEntry(action, entry, listener),
+    [action, entry]
+  );
+  const getSnapshot = useCallback(() => entry.state, [entry]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const staleTimeRef = useRef(staleTime);
+  staleTimeRef.current = staleTime;
+
+  const fetchIfStale = useCallback(() => {
+    if (isQueryStale(entry, staleTimeRef.current)) {
+      fetchQueryEntry(action, entry);
+    }
+  }, [action, entry]);
+
+  useEffect(() => {
+    if (enabled) fetchIfStale();
+  }, [enabled, fetchIfStale]);
+
+  useEffect(() => {
+    if (!enabled || !refetchOnWindowFocus || typeof window === "undefined") {
+      return;
+    }
+
+    const onFocus = () => {
+      if (document.visibilityState !== "hidden") fetchIfStale();
+    };
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("visibilitychange", onFocus);
+    return () => {
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("visibilitychange", onFocus);
+    };
+  }, [enabled, refetchOnWindowFocus, fetchIfStale]);
+
+  // Callbacks fire for fetches that settle while mounted, not for results already in the cache
+  // or written with `setData`.
+  const isSettled = state.status === "success" || state.status === "error";
+  const firedRef = useRef({
+    entry,
+    executedAt: isSettled ? state.executedAt : null,
+  });
+  useEffect(() => {
+    const fired = firedRef.current;
+    if (fired.entry !== entry) {
+      firedRef.current = { entry, executedAt: isSettled ? state.executedAt : null };
+      return;
+    }
+    if (!isSettled || state.executedAt === fired.executedAt) return;
+    firedRef.current = { entry, executedAt: state.executedAt };
+
+    const finalState = state as UseActionState<TData, TError>;
+    if (state.status === "error") {
+      optionsRef.current.onError?.(finalState as any);
+    } else {
+      optionsRef.current.onSuccess?.(finalState as any);
+    }
+    optionsRef.current.onSettled?.(finalState);
+  }, [entry, state, isSettled]);
+
+  const refetch = useCallback(() => fetchQueryEntry(action, entry), [action, entry]);
+
+  const invalidate = useCallback(
+    () => invalidateActionQuery(action, entry.input as ActionInput<TAction>),
+    [action, entry]
+  );
+
+  const setData = useCallback(
+    (data: TData | ((current: TData | null) => TData)) =>
+      setActionQueryData<TAction, TData>(
+        action,
+        entry.input as ActionInput<TAction>,
+        data
+      ),
+    [action, entry]
+  );
+
+  const typedState = state as UseActionState<TData, TError, TInput>;
+
+  return {
+    ...typedState,
+    hasSucceeded: typedState.status === "success",
+    hasErrored: typedState.status === "error",
+    // True until the first result arrives, including the render before the fetch starts.
+    isLoading:
+      typedState.data === null &&
+      (typedState.status === "executing" ||
+        (enabled && typedState.status === "idle")),
+    isFetching: typedState.status === "executing",
+    refetch,
+    invalidate,
+    setData,
+  };
+}
@@ -1,174 +1,580 @@
-import { useState, useCallback, useRef, useTransition } from "react";
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useTransition,
+} from "react";
 import type { ActionResult, ActionErrorProps } from "./action-client";
+import type { Revalidated } from "./revalidation";
+import {
+  getRetryDelay,
+  shouldRetry,
+  waitFor,
+  type RetryDelay,
+  type RetryPolicy,
+} from "./retry";
+import { createScheduledFn, type ScheduleOptions } from "./schedule";
+import { toUnexpectedError } from "./unexpected-error";
+import type { FieldErrors } from "./validation-errors";
 
-type ExtractData<TResult> = TResult extends ActionResult<infer D> ? D : never;
-type ActionInput<TAction> = TAction extends (payload: infer TInput) => Promise<any> ? TInput : never;
+export type ExtractData<TResult> = TResult extends { data: infer D; error: null } ? D : never;
+export type ExtractError<TResult> = TResult extends { error: infer E } ? Exclude<E, null> : never;
+export type ActionInput<TAction> = TAction extends (payload: infer TInput) => Promise<any> ? TInput : never;
+
+/**
+ * @description The error reported when calling the action itself fails (e.g. a network error).
+ */
+export type UnexpectedErrorProps = { code: "UNEXPECTED_ERROR"; message: string };
+
+/**
+ * @description The lifecycle of the most recent call.
+ * `idle` means nothing has run since the hook mounted or was reset.
+ */
+export type ActionStatus = "idle" | "executing" | "success" | "error";
 
 /**
  * @description The state object managed by the `useAction` hook.
  * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
+ * @template TInput - The input type of the action.
+ * @property {ActionStatus} status - The lifecycle of the most recent call.
  * @property {boolean} isError - True if the action resulted in an error.
- * @property {ActionErrorProps | null} error - The error object if an error occurred.
+ * @property {TError | null} error - The error object if an error occurred.
  * @property {TData | null} data - The data returned by the action if successful.
+ * @property {Revalidated | null} revalidated - The paths and tags the last successful call revalidated.
+ * @property {TInput | null} input - The payload of the most recent call.
+ * @property {number | null} executedAt - When the most recent call started, as a Unix timestamp in milliseconds.
+ * @property {number | null} settledAt - When the most recent call settled, as a Unix timestamp in milliseconds.
+ * @property {number} attempt - The attempt the most recent call is on, starting at 1 (0 before any call).
  */
-export type UseActionState<TData> = {
+export type UseActionState<TData, TError = ActionErrorProps, TInput = unknown> = {
+  status: ActionStatus;
   isError: boolean;
-  error: ActionErrorProps | null;
+  error: TError | null;
   data: TData | null;
+  revalidated: Revalidated | null;
+  input: TInput | null;
+  executedAt: number | null;
+  settledAt: number | null;
+  attempt: number;
 };
 
 /**
  * @description The type for the `set` function's argument.
  * @template TData - The type of the data.
+ * @template TError - The type of the errors the action can return.
  */
-export type UseActionSetState<TData> = {
+export type UseActionSetState<TData, TError = ActionErrorProps> = {
   data?: TData | null;
-  error?: ActionErrorProps | null;
+  error?: TError | null;
   isError?: boolean;
+  revalidated?: Revalidated | null;
 };
 
+/**
+ * @description How `execute` handles a call made while another is still in flight.
+ * - `latest`: every call runs, but only the most recent one updates state and fires callbacks.
+ * - `queue`: calls run one after another, in the order they were made.
+ * - `dedupe`: calls made while one is in flight are dropped and share its result.
+ * - `parallel`: every call runs and updates state as it resolves.
+ */
+export type ConcurrencyMode = "latest" | "queue" | "dedupe" | "parallel";
+
+/**
+ * @description The result `executeAsync` resolves with: the action result, or an `UNEXPECTED_ERROR`
+ * if calling the action failed.
+ * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
+ */
+export type ExecuteResult<TData, TError = ActionErrorProps> =
+  | { data: TData; error: null; revalidated?: Revalidated }
+  | { data: null; error: TError; revalidated?: undefined };
+
 /**
  * @description Options for the `useAction` hook.
  * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
  */
-type UseActionOptions<TData> = {
+export type UseActionOptions<TData, TError = ActionErrorProps> = {
   /** Initial data to set in the state. */
   initial?: TData | null;
   /** Callback fired on successful action execution. */
-  onSuccess?: (state: UseActionState<TData> & { data: TData }) => void;
+  onSuccess?: (state: UseActionState<TData, TError> & { data: TData }) => void;
   /** Callback fired on failed action execution. */
-  onError?: (state: UseActionState<TData> & { error: ActionErrorProps }) => void;
+  onError?: (state: UseActionState<TData, TError> & { error: TError }) => void;
   /** Callback fired after execution, regardless of outcome. */
-  onSettled?: (state: UseActionState<TData>) => void;
+  onSettled?: (state: UseActionState<TData, TError>) => void;
+  /** How overlapping calls are handled. Defaults to `"latest"`. */
+  concurrency?: ConcurrencyMode;
+  /** Retries failed calls, up to a number of times or while a predicate returns true. */
+  retry?: RetryPolicy<TError>;
+  /** The delay before each retry. Defaults to exponential backoff with jitter. */
+  retryDelay?: RetryDelay<TError>;
+  /** Callback fired before each retry with the failed attempt's error and the delay until the next one. */
+  onRetry?: (info: { error: TError; attempt: number; delay: number }) => void;
+  /** Delays `execute` until calls stop for the given time. Takes precedence over `throttle`. */
+  debounce?: ScheduleOptions;
+  /** Runs `execute` at most once per the given time. */
+  throttle?: ScheduleOptions;
 };
 
 /**
  * @description Options for the `execute` function.
  * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
  */
-type ExecuteOptions<TData> = Omit<UseActionOptions<TData>, "initial"> & {
+export type ExecuteOptions<TData, TError = ActionErrorProps> = Omit<
+  UseActionOptions<TData, TError>,
+  "initial" | "concurrency" | "debounce" | "throttle"
+> & {
   /** If true, resets state to initial value before executing. */
   reset?: boolean;
+  /**
+   * The idempotency key sent with the call, as the action's second argument. Defaults to a key
+   * generated per submission.
+   */
+  idempotencyKey?: string;
 };
 
+/**
+ * @description Generates an idempotency key for a submission.
+ */
+function createIdempotencyKey(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * @description Whether JSON represents a value without losing anything, so equal JSON means an
+ * equal value: plain objects and arrays of strings, finite numbers, booleans and null.
+ */
+function isJsonComparable(value: unknown, ancestors: Set<object>): boolean {
+  if (value === null || typeof value === "string" || typeof value === "boolean") {
+    return true;
+  }
+  if (typeof value === "number") return Number.isFinite(value);
+  if (typeof value !== "object" || ancestors.has(value)) return false;
+
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    return false;
+  }
+
+  ancestors.add(value);
+  const comparable = Object.values(value).every((item) =>
+    isJsonComparable(item, ancestors)
+  );
+  ancestors.delete(value);
+  return comparable;
+}
+
+/**
+ * @description Identifies a payload, so a repeated submission of it can reuse the idempotency key.
+ * Payloads JSON cannot represent exactly (files, form data, dates, maps, bigints...) never match,
+ * so they always get a new key.
+ */
+function getPayloadFingerprint(payload: unknown): string | null {
+  if (payload === undefined) return "";
+  return isJsonComparable(payload, new Set()) ? JSON.stringify(payload) : null;
+}
+
 /**
  * @description A hook for invoking server actions.
  * @template TAction - The type of the server action.
  * @template TInput - The input type of the action.
  * @template TData - The data type returned by the action.
+ * @template TError - The error type returned by the action, narrowable on `code`.
  * @param {TAction} action - The server action to execute.
- * @param {UseActionOptions<TData>} [options={}] - Options for the hook.
+ * @param {UseActionOptions<TData, TError>} [options={}] - Options for the hook.
  * @returns {{
+ *   status: ActionStatus;
+ *   hasSucceeded: boolean;
+ *   hasErrored: boolean;
  *   isError: boolean;
- *   error: ActionErrorProps | null;
+ *   error: TError | null;
  *   data: TData | null;
+ *   revalidated: Revalidated | null;
+ *   input: TInput | null;
+ *   executedAt: number | null;
+ *   settledAt: number | null;
+ *   attempt: number;
  *   isLoading: boolean;
+ *   fieldErrors: FieldErrors<TInput> | null;
  *   reset: () => void;
- *   execute: (payload: TInput, execOptions?: ExecuteOptions<TData>) => void;
- *   set: (newState: UseActionSetState<TData>) => void;
+ *   execute: (payload: TInput, execOptions?: ExecuteOptions<TData, TError>) => void;
+ *   executeAsync: (payload: TInput, execOptions?: ExecuteOptions<TData, TError>) => Promise<ExecuteResult<TData, TError>>;
+ *   retry: () => void;
+ *   flush: () => void;
+ *   cancel: () => void;
+ *   set: (newState: UseActionSetState<TData, TError>) => void;
  * }}
  */
 export function useAction<
   TAction extends (payload: any) => Promise<ActionResult<any>>,
   TInput = ActionInput<TAction>,
-  TData = ExtractData<Awaited<ReturnType<TAction>>>
->(action: TAction, options: UseActionOptions<TData> = {}) {
+  TData = ExtractData<Awaited<ReturnType<TAction>>>,
+  TError = ExtractError<Awaited<ReturnType<TAction>>> | UnexpectedErrorProps
+>(action: TAction, options: UseActionOptions<TData, TError> = {}) {
+  return useActionCore<TAction, TInput, TData, TError>(action, options);
+}
+
+/**
+ * @description The implementation of `useAction`, shared with the hooks built on it.
+ * @param {TAction} action - The server action to execute.
+ * @param {UseActionOptions<TData, TError>} options - Options for the hook.
+ * @param {(payload: TInput) => void} [onCall] - Called for every call that is actually made, including debounced or throttled ones and `retry()`, but not for calls dropped by `concurrency: "dedupe"`. It runs inside the call's transition, which lasts until the call settles.
+ * @returns {ReturnType<typeof useAction>} - The same result as `useAction`.
+ */
+export function useActionCore<
+  TAction extends (payload: any) => Promise<ActionResult<any>>,
+  TInput,
+  TData,
+  TError
+>(
+  action: TAction,
+  options: UseActionOptions<TData, TError>,
+  onCall?: (payload: TInput) => void
+) {
   const optionsRef = useRef(options);
   optionsRef.current = options;
+  const onCallRef = useRef(onCall);
+  onCallRef.current = onCall;
 
   const [isPending, startTransition] = useTransition();
 
   const getInitialState = useCallback(
-    (): UseActionState<TData> => ({
+    (): UseActionState<TData, TError, TInput> => ({
+      status: "idle",
       isError: false,
       error: null,
       data: optionsRef.current.initial ?? null,
+      revalidated: null,
+      input: null,
+      executedAt: null,
+      settledAt: null,
+      attempt: 0,
     }),
     []
   );
 
-  const [state, setState] = useState<UseActionState<TData>>(getInitialState);
+  const [state, setState] = useState<UseActionState<TData, TError, TInput>>(
+    getInitialState
+  );
 
-  const set = useCallback((newState: UseActionSetState<TData>) => {
-    startTransition(() => {
-      setState((prevState) => ({
-        ...prevState,
-        ...newState,
-      }));
-    });
+  // `set` and `reset` update state directly, so they never show up as loading.
+  const set = useCallback((newState: UseActionSetState<TData, TError>) => {
+    setState((prevState) => ({
+      ...prevState,
+      ...newState,
+    }));
   }, []);
 
   const reset = useCallback(() => {
-    startTransition(() => {
-      setState(getInitialState());
-    });
+    setState(getInitialState());
   }, [getInitialState]);
 
-  const execute = useCallback(
-    (payload: TInput, execOptions: ExecuteOptions<TData> = {}) => {
-      startTransition(async () => {
-        if (execOptions.reset) {
-          setState(getInitialState());
-        } else {
-          setState((prevState) => ({
-            ...prevState,
-            isError: false,
-            error: null,
-          }));
-        }
+  const latestCallRef = useRef(0);
+  const inFlightRef = useRef<Promise<ExecuteResult<TData, TError>> | null>(
+    null
+  );
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Submissions in flight by payload, so a double submit sends the same idempotency key.
+  const submissionsRef = useRef(
+    new Map<string, { idempotencyKey: string; pending: number }>()
+  );
+  const lastCallRef = useRef<{
+    payload: TInput;
+    execOptions: ExecuteOptions<TData, TError>;
+  } | null>(null);
+
+  // Aborted on unmount, so pending retries stop.
+  const unmountRef = useRef(new AbortController());
+  useEffect(() => {
+    const controller = new AbortController();
+    unmountRef.current = controller;
+    return () => controller.abort();
+  }, []);
 
-        let result: ActionResult<TData>;
+  // Called outside the call's transition: React holds updates made inside it until the call
+  // settles, so `status`, `input` and `executedAt` would otherwise only change at the end.
+  const start = useCallback(
+    (payload: TInput, execOptions: ExecuteOptions<TData, TError>): number => {
+      const executedAt = Date.now();
+      const started = {
+        status: "executing",
+        input: payload,
+        executedAt,
+        settledAt: null,
+        attempt: 1,
+      } as const;
 
+      if (execOptions.reset) {
+        setState({ ...getInitialState(), ...started });
+      } else {
+        setState((prevState) => ({
+          ...prevState,
+          ...started,
+          isError: false,
+          error: null,
+        }));
+      }
+      return executedAt;
+    },
+    [getInitialState]
+  );
+
+  const run = useCallback(
+    async (
+      payload: TInput,
+      execOptions: ExecuteOptions<TData, TError>,
+      isCurrent: () => boolean,
+      idempotencyKey: string,
+      executedAt: number
+    ): Promise<ExecuteResult<TData, TError>> => {
+      const signal = unmountRef.current.signal;
+      let result: ExecuteResult<TData, TError>;
+      let attempt = 1;
+
+      while (true) {
         try {
-          result = (await action(payload)) as ActionResult<TData>;
+          // Retries send the same key, so the server can tell they are one submission.
+          result = (await (action as (...args: unknown[]) => Promise<unknown>)(
+            payload,
+            { idempotencyKey }
+          )) as typeof result;
         } catch (e: unknown) {
-          const unexpectedError = {
-            code: "UNEXPECTED_ERROR",
-            message: (e as Error).message || "An unexpected error occurred.",
-          };
-          result = { data: null, error: unexpectedError };
+          result = { data: null, error: toUnexpectedError(e) as TError };
         }
 
-        let finalState: UseActionState<TData>;
-
-        if (result.error) {
-          const newData = execOptions.reset
-            ? optionsRef.current.initial ?? null
-            : null;
-
-          finalState = {
-            isError: true,
-            error: result.error,
-            data: newData,
-          };
-          setState(finalState);
-
-          optionsRef.current.onError?.(finalState as any);
-          execOptions.onError?.(finalState as any);
-        } else {
-          finalState = {
-            isError: false,
-            error: null,
-            data: result.data,
-          };
-          setState(finalState);
-
-          optionsRef.current.onSuccess?.(finalState as any);
-          execOptions.onSuccess?.(finalState as any);
+        // A newer call has been made, so this result must not overwrite its state.
+        if (!isCurrent()) return result;
+
+        if (
+          !result.error ||
+          !shouldRetry(
+            execOptions.retry ?? optionsRef.current.retry,
+            result.error,
+            attempt
+          )
+        ) {
+          break;
         }
 
-        optionsRef.current.onSettled?.(finalState);
-        execOptions.onSettled?.(finalState);
+        const retryInfo = {
+          error: result.error,
+          attempt,
+          delay: getRetryDelay(
+            execOptions.retryDelay ?? optionsRef.current.retryDelay,
+            result.error,
+            attempt
+          ),
+        };
+        optionsRef.current.onRetry?.(retryInfo);
+        execOptions.onRetry?.(retryInfo);
+
+        if (!(await waitFor(retryInfo.delay, signal)) || !isCurrent()) {
+          return result;
+        }
+
+        attempt++;
+        setState((prevState) => ({ ...prevState, attempt }));
+      }
+
+      let finalState: UseActionState<TData, TError, TInput>;
+
+      if (result.error) {
+        const newData = execOptions.reset
+          ? optionsRef.current.initial ?? null
+          : null;
+
+        finalState = {
+          status: "error",
+          isError: true,
+          error: result.error,
+          data: newData,
+          revalidated: null,
+          input: payload,
+          executedAt,
+          settledAt: Date.now(),
+          attempt,
+        };
+        setState(finalState);
+
+        optionsRef.current.onError?.(finalState as any);
+        execOptions.onError?.(finalState as any);
+      } else {
+        finalState = {
+          status: "success",
+          isError: false,
+          error: null,
+          data: result.data,
+          revalidated: result.revalidated ?? null,
+          input: payload,
+          executedAt,
+          settledAt: Date.now(),
+          attempt,
+        };
+        setState(finalState);
+
+        optionsRef.current.onSuccess?.(finalState as any);
+        execOptions.onSuccess?.(finalState as any);
+      }
+
+      optionsRef.current.onSettled?.(finalState);
+      execOptions.onSettled?.(finalState);
+
+      return result;
+    },
+    [action]
+  );
+
+  const executeAsync = useCallback(
+    (
+      payload: TInput,
+      execOptions: ExecuteOptions<TData, TError> = {}
+    ): Promise<ExecuteResult<TData, TError>> => {
+      const concurrency = optionsRef.current.concurrency ?? "latest";
+
+      if (concurrency === "dedupe" && inFlightRef.current) {
+        return inFlightRef.current;
+      }
+
+      // Only with `latest` is a repeated payload a double submit; queued and parallel calls
+      // are meant to run again, e.g. "add one item" clicked twice.
+      const fingerprint =
+        execOptions.idempotencyKey || concurrency !== "latest"
+          ? null
+          : getPayloadFingerprint(payload);
+      const submission = (fingerprint !== null &&
+        submissionsRef.current.get(fingerprint)) || {
+        idempotencyKey: execOptions.idempotencyKey ?? createIdempotencyKey(),
+        pending: 0,
+      };
+      submission.pending++;
+      if (fingerprint !== null) {
+        submissionsRef.current.set(fingerprint, submission);
+      }
+      const { idempotencyKey } = submission;
+
+      // `retry()` repeats the submission, so it keeps the key.
+      lastCallRef.current = {
+        payload,
+        execOptions: { ...execOptions, idempotencyKey },
+      };
+      const callId = ++latestCallRef.current;
+      const isCurrent = () =>
+        concurrency !== "latest" || callId === latestCallRef.current;
+      const previous = queueRef.current;
+
+      const promise = new Promise<ExecuteResult<TData, TError>>(
+        (resolve, reject) => {
+          let executedAt =
+            concurrency === "queue" ? 0 : start(payload, execOptions);
+
+          startTransition(async () => {
+            try {
+              onCallRef.current?.(payload);
+              if (concurrency === "queue") {
+                await previous;
+                // Updates made after an `await` are no longer part of the transition.
+                executedAt = start(payload, execOptions);
+              }
+              resolve(
+                await run(payload, execOptions, isCurrent, idempotencyKey, executedAt)
+              );
+            } catch (error) {
+              reject(error);
+              // Rethrown so React reports errors thrown by callbacks, as it did before.
+              throw error;
+            }
+          });
+        }
+      );
+
+      const settled = promise.then(
+        () => undefined,
+        () => undefined
+      );
+      if (concurrency === "queue") queueRef.current = settled;
+      inFlightRef.current = promise;
+      settled.then(() => {
+        if (inFlightRef.current === promise) inFlightRef.current = null;
+        // Once settled, submitting the same payload again is a new submission.
+        if (--submission.pending === 0 && fingerprint !== null) {
+          submissionsRef.current.delete(fingerprint);
+        }
       });
+
+      return promise;
+    },
+    [start, run]
+  );
+
+  const executeNow = useCallback(
+    (payload: TInput, execOptions?: ExecuteOptions<TData, TError>) => {
+      // Errors are already reported through the transition.
+      executeAsync(payload, execOptions).catch(() => {});
+    },
+    [executeAsync]
+  );
+
+  const executeNowRef = useRef(executeNow);
+  executeNowRef.current = executeNow;
+
+  const { debounce, throttle } = options;
+  const scheduleMode = debounce !== undefined ? "debounce" : "throttle";
+  const scheduleOptions = debounce ?? throttle;
+  const scheduleKey =
+    scheduleOptions === undefined ? "" : JSON.stringify(scheduleOptions);
+
+  const scheduled = useMemo(
+    () =>
+      scheduleOptions === undefined
+        ? null
+        : createScheduledFn(
+            (payload: TInput, execOptions?: ExecuteOptions<TData, TError>) =>
+              executeNowRef.current(payload, execOptions),
+            scheduleMode,
+            scheduleOptions
+          ),
+    // Recreated only when the schedule itself changes, not for every inline options object.
+    [scheduleMode, scheduleKey]
+  );
+
+  useEffect(() => () => scheduled?.cancel(), [scheduled]);
+
+  const execute = useCallback(
+    (payload: TInput, execOptions?: ExecuteOptions<TData, TError>) => {
+      if (scheduled) scheduled.call(payload, execOptions);
+      else executeNow(payload, execOptions);
     },
-    [action, getInitialState]
+    [scheduled, executeNow]
   );
 
+  const flush = useCallback(() => scheduled?.flush(), [scheduled]);
+  const cancel = useCallback(() => scheduled?.cancel(), [scheduled]);
+
+  const retry = useCallback(() => {
+    const lastCall = lastCallRef.current;
+    if (lastCall) executeNow(lastCall.payload, lastCall.execOptions);
+  }, [executeNow]);
+
   return {
     ...state,
+    hasSucceeded: state.status === "success",
+    hasErrored: state.status === "error",
     isLoading: isPending,
+    fieldErrors: ((state.error as ActionErrorProps | null)?.fieldErrors ??
+      null) as FieldErrors<TInput> | null,
     reset,
     execute,
+    executeAsync,
+    retry,
+    flush,
+    cancel,
     set,
   };
 }
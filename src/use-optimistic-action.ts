@@ -0,0 +1,65 @@
+import { useOptimistic } from "react";
+import type { ActionResult } from "./action-client";
+import {
+  useActionCore,
+  type ActionInput,
+  type ExtractData,
+  type ExtractError,
+  type UnexpectedErrorProps,
+  type UseActionOptions,
+} from "./use-action";
+
+/**
+ * @description Options for the `useOptimisticAction` hook.
+ * @template TState - The type of the state the action changes.
+ * @template TInput - The input type of the action.
+ * @template TData - The type of the data returned by the action.
+ * @template TError - The type of the errors the action can return.
+ */
+export type UseOptimisticActionOptions<TState, TInput, TData, TError> =
+  UseActionOptions<TData, TError> & {
+    /** The confirmed state, e.g. props from a server component or local state updated in `onSuccess`. */
+    currentState: TState;
+    /** Computes the optimistic state from the current state and the payload being executed. */
+    updateFn: (state: TState, input: TInput) => TState;
+  };
+
+/**
+ * @description A hook for invoking server actions with an optimistic update, built on React 19's
+ * `useOptimistic`. `optimisticState` reflects every pending call immediately and falls back to
+ * `currentState` once the calls settle: on success `currentState` holds the real result (e.g. after
+ * revalidation or an update in `onSuccess`), on failure the optimistic change is rolled back and
+ * `onError` fires. Everything else behaves exactly like `useAction`.
+ * @template TAction - The type of the server action.
+ * @template TState - The type of the state the action changes.
+ * @template TInput - The input type of the action.
+ * @template TData - The data type returned by the action.
+ * @template TError - The error type returned by the action, narrowable on `code`.
+ * @param {TAction} action - The server action to execute.
+ * @param {UseOptimisticActionOptions<TState, TInput, TData, TError>} options - The confirmed state, the update function and `useAction` options.
+ * @returns {ReturnType<typeof useAction> & { optimisticState: TState }} - The `useAction` result plus the optimistic state.
+ */
+export function useOptimisticAction<
+  TAction extends (payload: any) => Promise<ActionResult<any>>,
+  TState,
+  TInput = ActionInput<TAction>,
+  TData = ExtractData<Awaited<ReturnType<TAction>>>,
+  TError = ExtractError<Awaited<ReturnType<TAction>>> | UnexpectedErrorProps
+>(
+  action: TAction,
+  options: UseOptimisticActionOptions<TState, TInput, TData, TError>
+) {
+  const { currentState, updateFn, ...actionOptions } = options;
+  const [optimisticState, addOptimistic] = useOptimistic(currentState, updateFn);
+
+  // Applied to every call `useAction` makes, so debounced and throttled calls and `retry()` update
+  // optimistically too, while calls dropped by `concurrency: "dedupe"` do not. The update belongs to
+  // the call's transition, which lasts until the call settles, after which React discards it.
+  const state = useActionCore<TAction, TInput, TData, TError>(
+    action,
+    actionOptions,
+    addOptimistic
+  );
+
+  return { ...state, optimisticState };
+}
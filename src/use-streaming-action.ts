@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ActionErrorProps, ActionResult } from "./action-client";
+import type { StreamEvent } from "./stream";
+import { toUnexpectedError } from "./unexpected-error";
+import type {
+  ActionInput,
+  ActionStatus,
+  UnexpectedErrorProps,
+} from "./use-action";
+
+type StreamOf<TAction> = TAction extends (
+  payload: any
+) => Promise<infer TResult>
+  ? TResult extends { data: ReadableStream<infer TEvent>; error: null }
+    ? TEvent
+    : never
+  : never;
+type ExtractChunk<TEvent> = TEvent extends { type: "chunk"; chunk: infer C } ? C : never;
+type ExtractFinal<TEvent> = TEvent extends { type: "final"; data: infer D } ? D : never;
+type ExtractStreamError<TAction> = TAction extends (
+  payload: any
+) => Promise<infer TResult>
+  ? TResult extends { error: infer E }
+    ? Exclude<E, null>
+    : never
+  : never;
+
+/**
+ * @description The state object managed by the `useStreamingAction` hook.
+ * @template TChunk - The type of the chunks yielded by the handler.
+ * @template TFinal - The type of the value returned by the handler.
+ * @template TError - The type of the errors the action can return.
+ * @property {ActionStatus} status - `executing` while the call or stream is running.
+ * @property {TChunk[]} chunks - The chunks received so far.
+ * @property {TFinal | null} data - The value returned by the handler, once the stream has finished.
+ * @property {TError | null} error - The error, if the call or the stream failed.
+ * @property {number | null} progress - The last progress reported by the handler.
+ */
+export type UseStreamingActionState<TChunk, TFinal, TError = ActionErrorProps> = {
+  status: ActionStatus;
+  chunks: TChunk[];
+  data: TFinal | null;
+  error: TError | null;
+  progress: number | null;
+};
+
+/**
+ * @description Options for the `useStreamingAction` hook.
+ * @template TChunk - The type of the chunks yielded by the handler.
+ * @template TFinal - The type of the value returned by the handler.
+ * @template TError - The type of the errors the action can return.
+ */
+export type UseStreamingActionOptions<TChunk, TFinal, TError = ActionErrorProps> = {
+  /** Callback fired for every chunk as it arrives. */
+  onChunk?: (chunk: TChunk) => void;
+  /** Callback fired when the stream finishes with a final value. */
+  onSuccess?: (state: UseStreamingActionState<TChunk, TFinal, TError> & { data: TFinal }) => void;
+  /** Callback fired when the call or the stream fails. */
+  onError?: (state: UseStreamingActionState<TChunk, TFinal, TError> & { error: TError }) => void;
+  /** Callback fired when the stream ends, regardless of outcome. Not fired when it is cancelled. */
+  onSettled?: (state: UseStreamingActionState<TChunk, TFinal, TError>) => void;
+};
+
+const INITIAL_STATE: UseStreamingActionState<never, never, never> = {
+  status: "idle",
+  chunks: [],
+  data: null,
+  error: null,
+  progress: null,
+};
+
+/**
+ * @description A hook for invoking actions created with `ActionBuilder.streamAction`. It exposes the
+ * chunks received so far, the last reported progress and the final value. Starting a new call,
+ * calling `cancel()` or unmounting cancels the stream in flight.
+ * @template TAction - The type of the streaming action.
+ * @template TInput - The input type of the action.
+ * @template TChunk - The type of the chunks yielded by the handler.
+ * @template TFinal - The type of the value returned by the handler.
+ * @template TError - The error type returned by the action, narrowable on `code`.
+ * @param {TAction} action - The streaming action to execute.
+ * @param {UseStreamingActionOptions<TChunk, TFinal, TError>} [options={}] - Options for the hook.
+ * @returns {{
+ *   status: ActionStatus;
+ *   chunks: TChunk[];
+ *   data: TFinal | null;
+ *   error: TError | null;
+ *   progress: number | null;
+ *   isStreaming: boolean;
+ *   execute: (payload: TInput) => Promise<void>;
+ *   cancel: () => void;
+ *   reset: () => void;
+ * }}
+ */
+export function useStreamingAction<
+  TAction extends (payload: any) => Promise<ActionResult<ReadableStream<any>>>,
+  TInput = ActionInput<TAction>,
+  TChunk = ExtractChunk<StreamOf<TAction>>,
+  TFinal = ExtractFinal<StreamOf<TAction>>,
+  TError = ExtractStreamError<TAction> | UnexpectedErrorProps
+>(
+  action: TAction,
+  options: UseStreamingActionOptions<TChunk, TFinal, TError> = {}
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [state, setState] = useState<UseStreamingActionState<TChunk, TFinal, TError>>(
+    INITIAL_STATE
+  );
+
+  const readerRef = useRef<ReadableStreamDefaultReader<StreamEvent<TChunk, TFinal, TError>> | null>(null);
+  const callIdRef = useRef(0);
+
+  const cancel = useCallback(() => {
+    callIdRef.current++;
+    readerRef.current?.cancel().catch(() => {});
+    readerRef.current = null;
+    setState((prev) =>
+      prev.status === "executing" ? { ...prev, status: "idle" } : prev
+    );
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setState(INITIAL_STATE);
+  }, [cancel]);
+
+  useEffect(
+    () => () => {
+      callIdRef.current++;
+      readerRef.current?.cancel().catch(() => {});
+    },
+    []
+  );
+
+  const execute = useCallback(
+    async (payload: TInput) => {
+      readerRef.current?.cancel().catch(() => {});
+      readerRef.current = null;
+      const callId = ++callIdRef.current;
+      const isCurrent = () => callId === callIdRef.current;
+
+      let current: UseStreamingActionState<TChunk, TFinal, TError> = {
+        ...INITIAL_STATE,
+        status: "executing",
+      };
+      setState(current);
+
+      const update = (next: Partial<UseStreamingActionState<TChunk, TFinal, TError>>) => {
+        current = { ...current, ...next };
+        setState(current);
+      };
+
+      const fail = (error: TError) => {
+        update({ status: "error", error });
+        optionsRef.current.onError?.(current as any);
+        optionsRef.current.onSettled?.(current);
+      };
+
+      try {
+        const result = await action(payload);
+        if (!isCurrent()) {
+          result.data?.cancel().catch(() => {});
+          return;
+        }
+        if (result.error) return fail(result.error as TError);
+
+        const reader = (
+          result.data as ReadableStream<StreamEvent<TChunk, TFinal, TError>>
+        ).getReader();
+        readerRef.current = reader;
+
+        while (true) {
+          const { done, value: event } = await reader.read();
+          if (!isCurrent()) return;
+          if (done) break;
+
+          if (event.type === "chunk") {
+            update({ chunks: [...current.chunks, event.chunk] });
+            optionsRef.current.onChunk?.(event.chunk);
+          } else if (event.type === "progress") {
+            update({ progress: event.progress });
+          } else if (event.type === "error") {
+            return fail(event.error);
+          } else {
+            update({ status: "success", data: event.data });
+            optionsRef.current.onSuccess?.(current as any);
+            optionsRef.current.onSettled?.(current);
+            return;
+          }
+        }
+
+        // The stream closed without a final event, e.g. the connection dropped.
+        fail(toUnexpectedError(new Error("The stream ended unexpectedly.")) as TError);
+      } catch (e: unknown) {
+        if (!isCurrent()) return;
+        fail(toUnexpectedError(e) as TError);
+      } finally {
+        if (isCurrent()) readerRef.current = null;
+      }
+    },
+    [action]
+  );
+
+  return {
+    ...state,
+    isStreaming: state.status === "executing",
+    execute,
+    cancel,
+    reset,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * @description A tree of validation messages that mirrors the shape of the action input.
+ * Every node may carry its own `_errors`, while nested objects and arrays are keyed
+ * exactly like the input (e.g. `fieldErrors.address?.city?._errors`).
+ * @template TInput - The input type the errors are keyed by.
+ */
+export type FieldErrors<TInput> = { _errors?: string[] } & (NonNullable<TInput> extends
+  | Date
+  | Blob
+  ? {}
+  : NonNullable<TInput> extends readonly (infer TItem)[]
+  ? { [index: number]: FieldErrors<TItem> | undefined }
+  : NonNullable<TInput> extends object
+  ? { [K in keyof NonNullable<TInput>]?: FieldErrors<NonNullable<TInput>[K]> }
+  : {});
+
+/**
+ * @description The minimal issue shape needed to build validation errors.
+ * @property {readonly PropertyKey[]} [path] - The path of the invalid value inside the input.
+ * @property {string} message - A human readable description of the issue.
+ */
+export type ValidationIssue = {
+  path?: readonly PropertyKey[];
+  message: string;
+};
+
+/**
+ * @description Groups validation issues into form-level errors and a field error tree.
+ * Issues without a path describe the input as a whole and become form-level errors.
+ * @template TInput - The input type the errors are keyed by.
+ * @param {readonly ValidationIssue[]} issues - The issues reported by the schema.
+ * @returns {{ formErrors: string[]; fieldErrors: FieldErrors<TInput> }} - The grouped errors.
+ */
+export function buildValidationErrors<TInput>(
+  issues: readonly ValidationIssue[]
+): { formErrors: string[]; fieldErrors: FieldErrors<TInput> } {
+  const formErrors: string[] = [];
+  const fieldErrors: Record<PropertyKey, any> = {};
+
+  for (const issue of issues) {
+    const path = issue.path ?? [];
+
+    if (path.length === 0) {
+      formErrors.push(issue.message);
+      continue;
+    }
+
+    let node = fieldErrors;
+    for (const key of path) {
+      node = node[key] ??= {};
+    }
+    (node._errors ??= []).push(issue.message);
+  }
+
+  return { formErrors, fieldErrors: fieldErrors as FieldErrors<TInput> };
+}
@@ -3,7 +3,9 @@ import { defineConfig } from 'tsup';
 export default defineConfig((options) => ({
   entry: {
     index: 'src/index.ts',
-    'hooks/index': 'src/use-action.ts',
+    'hooks/index': 'src/hooks.ts',
+    'testing/index': 'src/testing.ts',
+    'tanstack-query/index': 'src/tanstack-query.ts',
   },
   format: ['esm'],
   dts: true,